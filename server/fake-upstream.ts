@@ -0,0 +1,155 @@
+import { createServer, Server } from 'node:http';
+import { pathToFileURL } from 'node:url';
+import { startProxy } from './index';
+
+/**
+ * A stand-in for the Yelp and Foursquare APIs that returns generated bars
+ * around the requested location. Lets the proxy and the app run without real
+ * API keys or network access.
+ */
+
+const BAR_NAMES = [
+  'Harbour Lights', 'The Crooked Anchor', 'Fjord & Tonic', 'Old Wharf Pub', 'Rainy Day Taproom',
+  'Seven Mountains Wine', 'Bryggen Brewhouse', 'Funicular Lounge', 'Fish Market Tavern', 'Nordnes Sports Bar',
+];
+
+interface FakeBusiness {
+  id: string;
+  name: string;
+  latitude: number;
+  longitude: number;
+}
+
+function generateBusinesses(latitude: number, longitude: number, count: number): FakeBusiness[] {
+  return Array.from({ length: count }, (_, index) => {
+    // Spread bars on a spiral so they sort naturally by distance
+    const angle = index * 2.4;
+    const distance = 0.0004 * (index + 1);
+    return {
+      id: `fake-${index + 1}`,
+      name: `${BAR_NAMES[index % BAR_NAMES.length]}${index >= BAR_NAMES.length ? ` ${Math.floor(index / BAR_NAMES.length) + 1}` : ''}`,
+      latitude: latitude + distance * Math.sin(angle),
+      longitude: longitude + distance * 2 * Math.cos(angle),
+    };
+  });
+}
+
+function toYelpBusiness(business: FakeBusiness, index: number) {
+  return {
+    id: business.id,
+    name: business.name,
+    image_url: '',
+    is_closed: false,
+    url: `https://example.com/biz/${business.id}`,
+    review_count: 10 + index * 7,
+    categories: [{ alias: index % 2 === 0 ? 'pubs' : 'cocktailbars', title: index % 2 === 0 ? 'Pubs' : 'Cocktail Bars' }],
+    rating: 3 + (index % 5) * 0.5,
+    coordinates: { latitude: business.latitude, longitude: business.longitude },
+    transactions: [],
+    price: '$$',
+    location: {
+      address1: `Testgaten ${index + 1}`,
+      address2: null,
+      address3: null,
+      city: 'Bergen',
+      zip_code: '5003',
+      country: 'NO',
+      state: '46',
+      display_address: [`Testgaten ${index + 1}`, '5003 Bergen'],
+    },
+    phone: '+4755000000',
+    display_phone: '55 00 00 00',
+    distance: 45 * (index + 1),
+    business_hours: [{
+      open: [0, 1, 2, 3, 4, 5, 6].map((day) => ({ day, start: '1600', end: '0200', is_overnight: true })),
+      hours_type: 'REGULAR',
+      is_open_now: true,
+    }],
+  };
+}
+
+export function createFakeUpstream(totalBusinesses: number = 120): Server {
+  return createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json', 'RateLimit-Remaining': '4999' });
+      res.end(JSON.stringify(body));
+    };
+
+    if (!req.headers.authorization?.startsWith('Bearer ')) {
+      send(401, { error: { code: 'UNAUTHORIZED', description: 'Missing API key' } });
+      return;
+    }
+
+    const latitude = Number(url.searchParams.get('latitude') ?? url.searchParams.get('ll')?.split(',')[0] ?? 60.3913);
+    const longitude = Number(url.searchParams.get('longitude') ?? url.searchParams.get('ll')?.split(',')[1] ?? 5.3221);
+    const businesses = generateBusinesses(latitude, longitude, totalBusinesses);
+    const limit = Number(url.searchParams.get('limit') ?? 20);
+    const offset = Number(url.searchParams.get('offset') ?? 0);
+
+    if (url.pathname === '/v3/businesses/search') {
+      send(200, {
+        businesses: businesses.slice(offset, offset + limit).map((business, index) => toYelpBusiness(business, offset + index)),
+        total: businesses.length,
+      });
+      return;
+    }
+
+    const reviewsMatch = url.pathname.match(/^\/v3\/businesses\/([^/]+)\/reviews$/);
+    if (reviewsMatch) {
+      send(200, {
+        reviews: [1, 2, 3].map((n) => ({
+          id: `${reviewsMatch[1]}-review-${n}`,
+          rating: 3 + (n % 3),
+          user: { name: `Reviewer ${n}`, image_url: '' },
+          text: 'Great atmosphere and friendly staff...',
+          time_created: `2026-09-0${n} 21:00:00`,
+          url: `https://example.com/biz/${reviewsMatch[1]}?hrid=${n}`,
+        })),
+        total: 3,
+      });
+      return;
+    }
+
+    const detailsMatch = url.pathname.match(/^\/v3\/businesses\/([^/]+)$/);
+    if (detailsMatch) {
+      const index = businesses.findIndex((business) => business.id === detailsMatch[1]);
+      if (index === -1) {
+        send(404, { error: { code: 'BUSINESS_NOT_FOUND', description: 'Not found' } });
+      } else {
+        send(200, toYelpBusiness(businesses[index], index));
+      }
+      return;
+    }
+
+    if (url.pathname === '/places/search') {
+      send(200, {
+        results: businesses.slice(0, Math.min(limit, 50)).map((business) => ({
+          fsq_place_id: `fsq-${business.id}`,
+          name: business.name,
+          latitude: business.latitude,
+          longitude: business.longitude,
+          categories: [{ fsq_category_id: '1', name: 'Bar', short_name: 'Bar', plural_name: 'Bars', icon: { prefix: '', suffix: '' } }],
+          location: { formatted_address: 'Testgaten, Bergen', locality: 'Bergen' },
+        })),
+      });
+      return;
+    }
+
+    send(404, { error: { code: 'NOT_FOUND', description: url.pathname } });
+  });
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const upstreamPort = Number(process.env.FAKE_UPSTREAM_PORT ?? 8788);
+  createFakeUpstream().listen(upstreamPort, () => {
+    console.log(`[fake-upstream] Listening on http://localhost:${upstreamPort}`);
+    startProxy({
+      ...process.env,
+      YELP_API_KEY: 'fake-yelp-key',
+      FOURSQUARE_API_KEY: 'fake-foursquare-key',
+      YELP_UPSTREAM_URL: `http://localhost:${upstreamPort}`,
+      FOURSQUARE_UPSTREAM_URL: `http://localhost:${upstreamPort}`,
+    });
+  });
+}
@@ -0,0 +1,66 @@
+import { pathToFileURL } from 'node:url';
+import { createProxyServer, UpstreamConfig } from './proxy';
+
+/**
+ * Starts the API proxy. Configuration comes from environment variables:
+ *
+ *   YELP_API_KEY, FOURSQUARE_API_KEY    provider keys (never sent to the browser)
+ *   PORT                                port to listen on (default 8787)
+ *   YELP_UPSTREAM_URL                   defaults to https://api.yelp.com
+ *   FOURSQUARE_UPSTREAM_URL             defaults to https://places-api.foursquare.com
+ *   ALLOWED_ORIGIN                      CORS origin (default *)
+ *   RATE_LIMIT_BURST, RATE_LIMIT_PER_SECOND, CACHE_TTL_SECONDS
+ *   TRUSTED_PROXIES                     comma-separated addresses of reverse proxies whose
+ *                                       X-Forwarded-For is used for rate limiting (default none)
+ */
+export function upstreamsFromEnv(env: NodeJS.ProcessEnv = process.env): UpstreamConfig[] {
+  return [
+    {
+      name: 'yelp',
+      prefix: '/api/yelp',
+      baseUrl: env.YELP_UPSTREAM_URL ?? 'https://api.yelp.com',
+      apiKey: env.YELP_API_KEY?.trim() || undefined,
+    },
+    {
+      name: 'foursquare',
+      prefix: '/api/foursquare',
+      baseUrl: env.FOURSQUARE_UPSTREAM_URL ?? 'https://places-api.foursquare.com',
+      apiKey: env.FOURSQUARE_API_KEY?.trim() || undefined,
+      headers: { 'X-Places-Api-Version': '2025-06-17' },
+    },
+  ];
+}
+
+export function startProxy(env: NodeJS.ProcessEnv = process.env) {
+  const port = Number(env.PORT ?? 8787);
+  const upstreams = upstreamsFromEnv(env);
+
+  const server = createProxyServer({
+    upstreams,
+    rateLimit: {
+      capacity: Number(env.RATE_LIMIT_BURST ?? 20),
+      refillPerSecond: Number(env.RATE_LIMIT_PER_SECOND ?? 2),
+    },
+    cacheTtlMs: Number(env.CACHE_TTL_SECONDS ?? 300) * 1000,
+    cacheMaxEntries: 500,
+    allowedOrigin: env.ALLOWED_ORIGIN ?? '*',
+    upstreamTimeoutMs: 10000,
+    trustedProxies: (env.TRUSTED_PROXIES ?? '')
+      .split(',')
+      .map((address) => address.trim())
+      .filter(Boolean),
+  });
+
+  server.listen(port, () => {
+    console.log(`[proxy] Listening on http://localhost:${port}`);
+    upstreams.forEach((upstream) => {
+      console.log(`[proxy] ${upstream.prefix} → ${upstream.baseUrl} (${upstream.apiKey ? 'key configured' : 'no key'})`);
+    });
+  });
+
+  return server;
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  startProxy();
+}
@@ -0,0 +1,191 @@
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { createRateLimiter, RateLimiterOptions } from './rate-limit';
+import { createResponseCache } from './response-cache';
+
+/**
+ * A provider API the proxy forwards to, e.g. /api/yelp/* → https://api.yelp.com/*
+ */
+export interface UpstreamConfig {
+  name: string;
+  prefix: string;
+  baseUrl: string;
+  apiKey?: string;
+  headers?: Record<string, string>; // Extra headers sent upstream
+}
+
+export interface ProxyOptions {
+  upstreams: UpstreamConfig[];
+  rateLimit: RateLimiterOptions;
+  cacheTtlMs: number;
+  cacheMaxEntries: number;
+  allowedOrigin: string;
+  upstreamTimeoutMs: number;
+  trustedProxies: string[]; // Addresses whose X-Forwarded-For is believed; empty ignores the header
+}
+
+// Upstream response headers passed on to the browser
+const FORWARDED_HEADERS = ['content-type', 'retry-after'];
+const FORWARDED_HEADER_PREFIXES = ['ratelimit-', 'x-ratelimit-'];
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Strips the IPv4-mapped IPv6 prefix so "::ffff:127.0.0.1" matches "127.0.0.1"
+ */
+function normalizeAddress(address: string): string {
+  return address.trim().replace(/^::ffff:/, '');
+}
+
+/**
+ * Address the rate limit is keyed by. X-Forwarded-For can be set by anyone,
+ * so it is only read when the request comes from a trusted proxy, and then
+ * the right-most hop that isn't a trusted proxy is the client.
+ */
+export function clientAddress(req: IncomingMessage, trustedProxies: string[]): string {
+  const remote = req.socket.remoteAddress ? normalizeAddress(req.socket.remoteAddress) : 'unknown';
+  if (!trustedProxies.includes(remote)) return remote;
+
+  const forwarded = req.headers['x-forwarded-for'];
+  const hops = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded ?? '')
+    .split(',')
+    .map(normalizeAddress)
+    .filter(Boolean);
+
+  for (let index = hops.length - 1; index >= 0; index--) {
+    if (!trustedProxies.includes(hops[index])) return hops[index];
+  }
+  return hops[0] ?? remote;
+}
+
+function pickHeaders(upstream: Response): Record<string, string> {
+  const headers: Record<string, string> = {};
+  upstream.headers.forEach((value, name) => {
+    if (FORWARDED_HEADERS.includes(name) || FORWARDED_HEADER_PREFIXES.some((prefix) => name.startsWith(prefix))) {
+      headers[name] = value;
+    }
+  });
+  return headers;
+}
+
+/**
+ * Creates an HTTP server that forwards provider API calls, adding the API keys
+ * server-side so they never reach the browser. Successful responses are cached
+ * (unless a request asks for no-cache) and every client is rate limited.
+ */
+export function createProxyServer(options: ProxyOptions): Server {
+  const limiter = createRateLimiter(options.rateLimit);
+  const cache = createResponseCache(options.cacheTtlMs, options.cacheMaxEntries);
+  const corsHeaders = {
+    'Access-Control-Allow-Origin': options.allowedOrigin,
+    'Access-Control-Allow-Methods': 'GET, OPTIONS',
+    'Access-Control-Allow-Headers': 'Accept, Cache-Control, Content-Type, X-Places-Api-Version',
+    'Access-Control-Expose-Headers':
+      'X-Cache, Retry-After, RateLimit-Remaining, RateLimit-DailyLimit, RateLimit-ResetTime, X-RateLimit-Remaining, X-RateLimit-Limit, X-RateLimit-Reset',
+  };
+
+  const handle = async (req: IncomingMessage, res: ServerResponse) => {
+    Object.entries(corsHeaders).forEach(([name, value]) => res.setHeader(name, value));
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204);
+      res.end();
+      return;
+    }
+
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    // Reports which providers have keys, without revealing the keys
+    if (url.pathname === '/api/health') {
+      sendJson(res, 200, {
+        status: 'ok',
+        providers: Object.fromEntries(
+          options.upstreams.map((upstream) => [upstream.name, { configured: !!upstream.apiKey }])
+        ),
+        cacheEntries: cache.size,
+      });
+      return;
+    }
+
+    const upstream = options.upstreams.find((candidate) => url.pathname.startsWith(`${candidate.prefix}/`));
+    if (!upstream) {
+      sendJson(res, 404, { error: 'not_found', message: `No route for ${url.pathname}` });
+      return;
+    }
+
+    if (req.method !== 'GET') {
+      sendJson(res, 405, { error: 'method_not_allowed', message: 'Only GET requests are proxied' });
+      return;
+    }
+
+    if (!upstream.apiKey) {
+      sendJson(res, 503, { error: 'missing_key', message: `${upstream.name} API key is not configured on the proxy` });
+      return;
+    }
+
+    const target = `${upstream.baseUrl}${url.pathname.slice(upstream.prefix.length)}${url.search}`;
+    const cacheKey = `${upstream.name} ${target}`;
+
+    // "Cache-Control: no-cache" asks for a live answer, e.g. from the diagnostics page
+    const bypassCache = /no-cache/i.test(req.headers['cache-control'] ?? '');
+    const cached = bypassCache ? undefined : cache.get(cacheKey);
+    if (cached) {
+      res.writeHead(cached.status, { ...cached.headers, 'X-Cache': 'HIT' });
+      res.end(cached.body);
+      return;
+    }
+
+    // Only requests that reach the provider count against the client's budget
+    const limit = limiter.take(clientAddress(req, options.trustedProxies));
+    if (!limit.allowed) {
+      sendJson(
+        res,
+        429,
+        { error: 'rate_limited', message: 'Too many requests, slow down' },
+        { 'Retry-After': limit.retryAfterSeconds.toString() }
+      );
+      return;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(target, {
+        headers: {
+          Accept: 'application/json',
+          ...upstream.headers,
+          Authorization: `Bearer ${upstream.apiKey}`,
+        },
+        signal: AbortSignal.timeout(options.upstreamTimeoutMs),
+      });
+    } catch (error) {
+      console.error(`[proxy] ${upstream.name} unreachable:`, error);
+      sendJson(res, 502, { error: 'upstream_unreachable', message: `${upstream.name} could not be reached` });
+      return;
+    }
+
+    const body = Buffer.from(await response.arrayBuffer());
+    const headers = pickHeaders(response);
+
+    if (response.status === 200) {
+      cache.set(cacheKey, { status: response.status, headers, body });
+    }
+
+    res.writeHead(response.status, { ...headers, 'X-Cache': 'MISS' });
+    res.end(body);
+  };
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch((error) => {
+      console.error('[proxy] Unexpected error:', error);
+      if (!res.headersSent) {
+        sendJson(res, 500, { error: 'internal_error', message: 'Proxy error' });
+      } else {
+        res.end();
+      }
+    });
+  });
+  server.on('close', () => limiter.dispose());
+  return server;
+}
@@ -0,0 +1,73 @@
+/**
+ * Token bucket rate limiter keyed by client (usually the IP address)
+ */
+export interface RateLimiterOptions {
+  capacity: number; // Burst size
+  refillPerSecond: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+export function createRateLimiter({ capacity, refillPerSecond }: RateLimiterOptions) {
+  const buckets = new Map<string, Bucket>();
+
+  // A bucket that has refilled is no different from a new one, so it can go.
+  // Without this every client ever seen would stay in memory.
+  const refillMs = (capacity / refillPerSecond) * 1000;
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    buckets.forEach((bucket, client) => {
+      if (bucket.tokens + ((now - bucket.updatedAt) / 1000) * refillPerSecond >= capacity) {
+        buckets.delete(client);
+      }
+    });
+  }, Math.max(1000, refillMs));
+  sweep.unref();
+
+  return {
+    /**
+     * Takes one token for the client, if available
+     */
+    take(client: string, now: number = Date.now()): RateLimitResult {
+      const bucket = buckets.get(client) ?? { tokens: capacity, updatedAt: now };
+      const elapsedSeconds = (now - bucket.updatedAt) / 1000;
+      bucket.tokens = Math.min(capacity, bucket.tokens + elapsedSeconds * refillPerSecond);
+      bucket.updatedAt = now;
+      buckets.set(client, bucket);
+
+      if (bucket.tokens < 1) {
+        return {
+          allowed: false,
+          remaining: 0,
+          retryAfterSeconds: Math.ceil((1 - bucket.tokens) / refillPerSecond),
+        };
+      }
+
+      bucket.tokens -= 1;
+      return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfterSeconds: 0 };
+    },
+
+    /**
+     * Number of clients currently tracked
+     */
+    get size() {
+      return buckets.size;
+    },
+
+    /**
+     * Stops the cleanup timer
+     */
+    dispose() {
+      clearInterval(sweep);
+    },
+  };
+}
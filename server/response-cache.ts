@@ -0,0 +1,38 @@
+/**
+ * In-memory cache for successful upstream responses with a fixed time-to-live.
+ * Oldest entries are evicted first once maxEntries is reached.
+ */
+export interface CachedResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: Buffer;
+  storedAt: number;
+}
+
+export function createResponseCache(ttlMs: number, maxEntries: number) {
+  const entries = new Map<string, CachedResponse>();
+
+  return {
+    get(key: string, now: number = Date.now()): CachedResponse | undefined {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (now - entry.storedAt > ttlMs) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry;
+    },
+
+    set(key: string, response: Omit<CachedResponse, 'storedAt'>, now: number = Date.now()): void {
+      if (entries.size >= maxEntries) {
+        const oldestKey = entries.keys().next().value;
+        if (oldestKey !== undefined) entries.delete(oldestKey);
+      }
+      entries.set(key, { ...response, storedAt: now });
+    },
+
+    get size(): number {
+      return entries.size;
+    },
+  };
+}
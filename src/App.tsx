@@ -1,26 +1,51 @@
+import { useEffect, useState, type ReactNode } from "react";
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { ThemeProvider } from "next-themes";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
+import Diagnostics from "./pages/Diagnostics";
+import BarPage from "./pages/BarPage";
+import { persistBarCache, restoreBarCache } from "./services/bar-cache";
 
 const queryClient = new QueryClient();
 
+// Serve bar searches from the offline cache before anything queries the network
+const cacheRestored = restoreBarCache(queryClient).then(() => persistBarCache(queryClient));
+
+// Holds rendering until cached searches are restored (usually a few milliseconds)
+const CacheGate = ({ children }: { children: ReactNode }) => {
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    cacheRestored.then(() => setReady(true));
+  }, []);
+
+  return ready ? <>{children}</> : null;
+};
+
 const App = () => (
   <QueryClientProvider client={queryClient}>
-    <TooltipProvider>
-      <Toaster />
-      <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
-    </TooltipProvider>
+    <ThemeProvider attribute="class" defaultTheme="dark" enableSystem>
+      <TooltipProvider>
+        <Toaster />
+        <Sonner />
+        <CacheGate>
+          <BrowserRouter>
+            <Routes>
+              <Route path="/" element={<Index />} />
+              <Route path="/bars/:barId" element={<BarPage />} />
+              <Route path="/diagnostics" element={<Diagnostics />} />
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </CacheGate>
+      </TooltipProvider>
+    </ThemeProvider>
   </QueryClientProvider>
 );
 
@@ -1,18 +1,28 @@
-import { Heart, MapPin, Star, Navigation } from 'lucide-react';
+import { Heart, MapPin, Star, Navigation, Footprints, Bike, Car } from 'lucide-react';
 import { Bar } from '@/data/bars';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { getPriceRangeInNOK, formatDistance } from '@/lib/utils';
+import { getPriceRangeInNOK, formatDistance, formatDuration } from '@/lib/utils';
+import { OpeningStatus, formatOpeningStatus } from '@/lib/hours';
+import { RouteLeg, TravelMode } from '@/services/routing';
 
 interface BarCardProps {
   bar: Bar;
   isFavorite: boolean;
   onToggleFavorite: (barId: string) => void;
   onClick: () => void;
+  openingStatus: OpeningStatus; // Computed once for the whole list
+  openingAt?: Date; // The status is for this planned time instead of now
+  route?: RouteLeg; // Travel time and distance from the search location
+  travelMode?: TravelMode;
 }
 
-const BarCard = ({ bar, isFavorite, onToggleFavorite, onClick }: BarCardProps) => {
+const travelModeIcons = { walk: Footprints, cycle: Bike, drive: Car };
+
+const BarCard = ({ bar, isFavorite, onToggleFavorite, onClick, openingStatus, openingAt, route, travelMode = 'walk' }: BarCardProps) => {
+  const TravelIcon = travelModeIcons[travelMode];
+
   return (
     <Card
       className="overflow-hidden cursor-pointer transition-all duration-300 hover:scale-[1.02] hover:shadow-glow bg-gradient-card border-border"
@@ -43,9 +53,12 @@ const BarCard = ({ bar, isFavorite, onToggleFavorite, onClick }: BarCardProps) =
           <Badge className="backdrop-blur-sm">
             {bar.type.replace('-', ' ')}
           </Badge>
-          {bar.isOpenNow !== undefined && (
-            <Badge variant={bar.isOpenNow ? "default" : "secondary"} className="backdrop-blur-sm">
-              {bar.isOpenNow ? 'Open' : 'Closed'}
+          {(openingStatus.state !== 'unknown' || openingAt) && (
+            <Badge
+              variant={openingStatus.state === 'open' ? "default" : openingStatus.state === 'closed' ? "secondary" : "outline"}
+              className="backdrop-blur-sm"
+            >
+              {formatOpeningStatus(openingStatus, openingAt)}
             </Badge>
           )}
         </div>
@@ -57,6 +70,9 @@ const BarCard = ({ bar, isFavorite, onToggleFavorite, onClick }: BarCardProps) =
           <div className="flex items-center gap-1 bg-primary/10 px-2 py-1 rounded-full flex-shrink-0">
             <Star className="h-4 w-4 fill-primary text-primary" />
             <span className="text-sm font-medium">{bar.rating}</span>
+            {bar.reviewCount !== undefined && (
+              <span className="text-xs text-muted-foreground">({bar.reviewCount})</span>
+            )}
           </div>
         </div>
         
@@ -65,7 +81,12 @@ const BarCard = ({ bar, isFavorite, onToggleFavorite, onClick }: BarCardProps) =
             <MapPin className="h-4 w-4 mr-1 flex-shrink-0" />
             <span className="truncate">{bar.address.split(',')[0]}</span>
           </div>
-          {bar.distance !== undefined && (
+          {route ? (
+            <div className="flex items-center gap-1 text-xs flex-shrink-0">
+              <TravelIcon className="h-3 w-3" />
+              <span>{formatDuration(route.duration)} • {formatDistance(route.distance)}</span>
+            </div>
+          ) : bar.distance !== undefined && (
             <div className="flex items-center gap-1 text-xs">
               <Navigation className="h-3 w-3" />
               <span>{formatDistance(bar.distance)}</span>
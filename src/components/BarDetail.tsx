@@ -1,10 +1,14 @@
-import { useState } from 'react';
-import { X, MapPin, Star, Heart, MessageSquare, AlertCircle, Phone, Clock, Navigation } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { X, MapPin, Star, Heart, Phone, Clock, Navigation, Maximize2, Footprints } from 'lucide-react';
 import { Bar } from '@/data/bars';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Alert, AlertDescription } from '@/components/ui/alert';
 import { getPriceRangeInNOK, formatDistance, formatBusinessHours } from '@/lib/utils';
+import { OpeningStatus, formatOpeningStatus } from '@/lib/hours';
+import { getProvider } from '@/services/providers';
+import { TravelMode, getGoogleMapsTravelMode } from '@/services/routing';
+import { getReviewSource } from '@/services/details';
+import ReviewsSection from '@/components/ReviewsSection';
 
 interface BarDetailProps {
   bar: Bar;
@@ -13,10 +17,16 @@ interface BarDetailProps {
   onClose: () => void;
   userLocation?: { latitude: number; longitude: number } | null;
   onShowRoute?: (bar: Bar) => void;
+  detailsHref?: string; // Link to the bar's own page
+  openingStatus: OpeningStatus;
+  openingAt?: Date; // The status is for this planned time instead of now
+  inCrawl?: boolean;
+  onToggleCrawl?: (bar: Bar) => void;
+  travelMode?: TravelMode;
 }
 
-const BarDetail = ({ bar, isFavorite, onToggleFavorite, onClose, userLocation, onShowRoute }: BarDetailProps) => {
-  const [showReviewsInfo, setShowReviewsInfo] = useState(false);
+const BarDetail = ({ bar, isFavorite, onToggleFavorite, onClose, userLocation, onShowRoute, detailsHref, openingStatus, openingAt, inCrawl, onToggleCrawl, travelMode = 'walk' }: BarDetailProps) => {
+  const reviewSource = getReviewSource(bar);
   
   const handleGetDirections = () => {
     // If we have the onShowRoute callback, use map routing
@@ -31,7 +41,7 @@ const BarDetail = ({ bar, isFavorite, onToggleFavorite, onClose, userLocation, o
       const origin = `${userLocation.latitude},${userLocation.longitude}`;
       const destination = `${lat},${lng}`;
       window.open(
-        `https://www.google.com/maps/dir/?api=1&origin=${origin}&destination=${destination}&travelmode=walking`,
+        `https://www.google.com/maps/dir/?api=1&origin=${origin}&destination=${destination}&travelmode=${getGoogleMapsTravelMode(travelMode)}`,
         '_blank'
       );
     } else {
@@ -70,9 +80,12 @@ const BarDetail = ({ bar, isFavorite, onToggleFavorite, onClose, userLocation, o
               <div className="flex-1 min-w-0">
                 <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-3">
                   <h2 className="text-xl sm:text-2xl md:text-3xl font-bold break-words">{bar.name}</h2>
-                  {bar.isOpenNow !== undefined && (
-                    <Badge variant={bar.isOpenNow ? "default" : "secondary"} className="w-fit text-xs flex-shrink-0">
-                      {bar.isOpenNow ? 'Open Now' : 'Closed'}
+                  {(openingStatus.state !== 'unknown' || openingAt) && (
+                    <Badge
+                      variant={openingStatus.state === 'open' ? "default" : openingStatus.state === 'closed' ? "secondary" : "outline"}
+                      className="w-fit text-xs flex-shrink-0"
+                    >
+                      {formatOpeningStatus(openingStatus, openingAt)}
                     </Badge>
                   )}
                 </div>
@@ -94,15 +107,39 @@ const BarDetail = ({ bar, isFavorite, onToggleFavorite, onClose, userLocation, o
                 <div className="flex items-center gap-1 bg-primary/10 px-2.5 sm:px-3 py-1.5 rounded-full">
                   <Star className="h-4 w-4 sm:h-5 sm:w-5 fill-primary text-primary" />
                   <span className="font-semibold text-sm sm:text-base">{bar.rating}</span>
+                  {bar.reviewCount !== undefined && (
+                    <span className="text-xs text-muted-foreground">({bar.reviewCount} reviews)</span>
+                  )}
                 </div>
                 <div className="flex flex-col">
                   <span className="font-semibold text-primary text-sm sm:text-base">{getPriceRangeInNOK(bar.priceLevel)}</span>
                   <span className="text-xs text-muted-foreground">per drink</span>
                 </div>
               </div>
-              <Button size="sm" onClick={handleGetDirections} className="w-full sm:w-auto text-sm">
-                Get Directions
-              </Button>
+              <div className="flex gap-2">
+                {detailsHref && (
+                  <Button size="sm" variant="outline" asChild className="flex-1 sm:flex-none text-sm">
+                    <Link to={detailsHref}>
+                      <Maximize2 className="h-4 w-4 mr-2" />
+                      Full Details
+                    </Link>
+                  </Button>
+                )}
+                {onToggleCrawl && (
+                  <Button
+                    size="sm"
+                    variant={inCrawl ? 'secondary' : 'outline'}
+                    onClick={() => onToggleCrawl(bar)}
+                    className="flex-1 sm:flex-none text-sm"
+                  >
+                    <Footprints className="h-4 w-4 mr-2" />
+                    {inCrawl ? 'In Crawl' : 'Add to Crawl'}
+                  </Button>
+                )}
+                <Button size="sm" onClick={handleGetDirections} className="flex-1 sm:flex-none text-sm">
+                  Get Directions
+                </Button>
+              </div>
             </div>
 
             <div className="space-y-3">
@@ -141,6 +178,20 @@ const BarDetail = ({ bar, isFavorite, onToggleFavorite, onClose, userLocation, o
               </div>
             )}
 
+            {bar.sources && bar.sources.length > 0 && (
+              <p className="text-xs text-muted-foreground pt-2">
+                Data from {bar.sources.map((source) => getProvider(source)?.name ?? source).join(' & ')}
+                {bar.providerUrl && (
+                  <>
+                    {' • '}
+                    <a href={bar.providerUrl} target="_blank" rel="noreferrer" className="text-primary hover:underline">
+                      View on {getProvider(bar.provenance?.providerUrl ?? bar.source ?? 'mock')?.name}
+                    </a>
+                  </>
+                )}
+              </p>
+            )}
+
             {bar.displayPhone && (
               <div className="flex items-center gap-2 pt-3">
                 <Phone className="h-4 w-4 text-muted-foreground" />
@@ -155,26 +206,12 @@ const BarDetail = ({ bar, isFavorite, onToggleFavorite, onClose, userLocation, o
           </div>
 
           {/* Reviews Section */}
-          <div className="space-y-4">
-            <Button
-              variant="outline"
-              className="w-full text-sm sm:text-base"
-              onClick={() => setShowReviewsInfo(!showReviewsInfo)}
-            >
-              <MessageSquare className="h-4 w-4 mr-2" />
-              {showReviewsInfo ? 'Hide Reviews Info' : 'Reviews'}
-            </Button>
-
-            {showReviewsInfo && (
-              <Alert>
-                <AlertCircle className="h-4 w-4" />
-                <AlertDescription className="text-sm">
-                  Reviews are not available in-app due to Yelp API free tier limitations. 
-                  The reviews endpoint requires a paid plan or special approval.
-                </AlertDescription>
-              </Alert>
-            )}
-          </div>
+          <ReviewsSection
+            barId={reviewSource?.barId}
+            provider={reviewSource?.provider ?? bar.sources?.[0]}
+            pageable={false}
+            excerptLength={200}
+          />
         </div>
       </div>
     </div>
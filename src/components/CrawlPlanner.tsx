@@ -0,0 +1,287 @@
+import { useState } from 'react';
+import { AlertTriangle, ChevronDown, ChevronUp, Copy, Footprints, GripVertical, Map, Shuffle, Trash2, X } from 'lucide-react';
+import { Bar } from '@/data/bars';
+import { Route } from '@/services/routing';
+import { ScheduledStop } from '@/lib/crawl';
+import { formatOpeningStatus, formatVenueTime } from '@/lib/hours';
+import { formatDistance, formatDuration, formatTime } from '@/lib/utils';
+import { toast } from '@/hooks/use-toast';
+import OpenAtPicker from '@/components/OpenAtPicker';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+
+interface CrawlPlannerProps {
+  stops: Bar[];
+  startName?: string;
+  route?: Route; // Walking route from the start through every stop
+  routeLoading?: boolean;
+  routeError?: boolean;
+  schedule?: ScheduledStop[]; // Arrival and leave times, once the walking times are known
+  startAt: string | null; // Wall-clock start at the venues; null starts now
+  onStartAtChange: (startAt: string | null) => void;
+  getDwellMinutes: (bar: Bar) => number;
+  onDwellChange: (barId: string, minutes: number) => void;
+  onMoveStop: (from: number, to: number) => void;
+  onRemoveStop: (bar: Bar) => void;
+  onOptimize: () => void;
+  onClear: () => void;
+  onShowOnMap: () => void;
+  onSelectStop?: (bar: Bar) => void;
+}
+
+/**
+ * Describes why a scheduled stop needs attention
+ */
+function describeWarning(stop: ScheduledStop): string | undefined {
+  switch (stop.warning) {
+    case 'closed':
+      return `Closed on arrival • ${formatOpeningStatus(stop.status, stop.arriveAt)}`;
+    case 'closes_early':
+      return `Closes ${formatTime(stop.status.closesAt!)}, before you leave`;
+    case 'unknown':
+      return 'Opening hours unknown';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Plain-text schedule for sharing with the group
+ */
+function scheduleToText(schedule: ScheduledStop[], startName: string): string {
+  const lines = schedule.map((stop, index) => {
+    const warning = describeWarning(stop);
+    return `${formatVenueTime(stop.arriveAt, stop.status.timeZone)}–${formatVenueTime(stop.leaveAt, stop.status.timeZone)}  ${index + 1}. ${stop.bar.name}, ${stop.bar.address}${
+      warning ? ` (${warning})` : ''
+    }`;
+  });
+  return [`Bar crawl from ${startName}`, ...lines].join('\n');
+}
+
+/**
+ * Stops of a bar crawl in walking order with the time for each leg and a
+ * schedule checked against opening hours
+ * Stops are reordered by dragging them (or with the arrows on touch screens)
+ */
+const CrawlPlanner = ({
+  stops,
+  startName,
+  route,
+  routeLoading,
+  routeError,
+  schedule,
+  startAt,
+  onStartAtChange,
+  getDwellMinutes,
+  onDwellChange,
+  onMoveStop,
+  onRemoveStop,
+  onOptimize,
+  onClear,
+  onShowOnMap,
+  onSelectStop,
+}: CrawlPlannerProps) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) onMoveStop(dragIndex, index);
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const legLabel = (index: number) => {
+    const leg = route?.legs[index];
+    if (leg) return `${formatDuration(leg.duration)} walk • ${formatDistance(leg.distance)}`;
+    if (routeLoading) return 'Finding route...';
+    return routeError ? 'Walking time unavailable' : '';
+  };
+
+  const closedCount = schedule?.filter((stop) => stop.warning === 'closed').length ?? 0;
+
+  const handleCopy = async () => {
+    if (!schedule) return;
+    try {
+      await navigator.clipboard.writeText(scheduleToText(schedule, startName || 'the search location'));
+      toast({ title: 'Schedule copied', description: 'Paste it into your group chat.', duration: 3000 });
+    } catch {
+      toast({ title: "Couldn't copy the schedule", variant: 'destructive', duration: 3000 });
+    }
+  };
+
+  if (stops.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground text-sm">
+        <Footprints className="h-8 w-8 mx-auto mb-3" />
+        Add bars to your crawl from their details. We'll put them in a sensible walking order.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="text-sm">
+          <span className="font-medium">Start:</span>{' '}
+          <span className="text-muted-foreground">{startName || 'Search location'}</span>
+        </div>
+        <Label className="text-xs text-muted-foreground">{startAt ? 'Leaving at' : 'Leaving now, or pick a time'}</Label>
+        <OpenAtPicker value={startAt} onChange={onStartAtChange} />
+      </div>
+
+      {closedCount > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            {closedCount === 1 ? 'One stop is' : `${closedCount} stops are`} closed when you arrive. Try another order or start time.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <ol className="space-y-1">
+        {stops.map((bar, index) => {
+          const scheduled = schedule?.[index];
+          const warning = scheduled && describeWarning(scheduled);
+          return (
+            <li key={bar.id}>
+              <div className="flex items-center gap-2 pl-3 py-1 text-xs text-muted-foreground border-l-2 border-dashed border-primary/40 ml-3">
+                <Footprints className="h-3 w-3" />
+                {legLabel(index)}
+              </div>
+              <Card
+                draggable
+                onDragStart={(e) => {
+                  // Firefox only starts a drag that carries data
+                  e.dataTransfer.setData('text/plain', String(index));
+                  e.dataTransfer.effectAllowed = 'move';
+                  setDragIndex(index);
+                }}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setDropIndex(index);
+                }}
+                onDragLeave={() => setDropIndex((current) => (current === index ? null : current))}
+                onDrop={(e) => {
+                  e.preventDefault(); // Keeps Firefox from opening the dragged text
+                  handleDrop(index);
+                }}
+                onDragEnd={() => {
+                  setDragIndex(null);
+                  setDropIndex(null);
+                }}
+                className={`p-2 flex items-center gap-2 transition-colors ${
+                  dropIndex === index && dragIndex !== index ? 'border-primary' : ''
+                } ${dragIndex === index ? 'opacity-50' : ''}`}
+              >
+                <GripVertical className="h-4 w-4 text-muted-foreground cursor-grab flex-shrink-0" />
+                <span className="h-6 w-6 rounded-full bg-primary text-primary-foreground text-xs font-semibold flex items-center justify-center flex-shrink-0">
+                  {index + 1}
+                </span>
+                <div className="flex-1 min-w-0">
+                  <button
+                    className="block w-full text-left text-sm font-medium truncate hover:text-primary"
+                    onClick={() => onSelectStop?.(bar)}
+                  >
+                    {bar.name}
+                  </button>
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    {scheduled && (
+                      <span>{formatVenueTime(scheduled.arriveAt, scheduled.status.timeZone)}–{formatVenueTime(scheduled.leaveAt, scheduled.status.timeZone)}</span>
+                    )}
+                    <Input
+                      type="number"
+                      min={5}
+                      step={5}
+                      value={getDwellMinutes(bar)}
+                      onChange={(e) => {
+                        const minutes = Number(e.target.value);
+                        if (minutes > 0) onDwellChange(bar.id, minutes);
+                      }}
+                      className="h-6 w-14 px-1 text-xs"
+                      aria-label={`Minutes at ${bar.name}`}
+                    />
+                    <span>min</span>
+                  </div>
+                  {warning && (
+                    <div
+                      className={`flex items-center gap-1 text-xs ${
+                        scheduled?.warning === 'unknown' ? 'text-muted-foreground' : 'text-destructive'
+                      }`}
+                    >
+                      <AlertTriangle className="h-3 w-3 flex-shrink-0" />
+                      {warning}
+                    </div>
+                  )}
+                </div>
+                <div className="flex flex-shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={index === 0}
+                    onClick={() => onMoveStop(index, index - 1)}
+                    aria-label="Move up"
+                  >
+                    <ChevronUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={index === stops.length - 1}
+                    onClick={() => onMoveStop(index, index + 1)}
+                    aria-label="Move down"
+                  >
+                    <ChevronDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => onRemoveStop(bar)}
+                    aria-label={`Remove ${bar.name}`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              </Card>
+            </li>
+          );
+        })}
+      </ol>
+
+      {route && (
+        <p className="text-sm">
+          <span className="font-medium">Total walking:</span>{' '}
+          <span className="text-muted-foreground">
+            {formatDuration(route.duration)} • {formatDistance(route.distance)}
+          </span>
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <Button variant="outline" size="sm" onClick={onOptimize} disabled={stops.length < 2}>
+          <Shuffle className="h-4 w-4 mr-2" />
+          Optimize order
+        </Button>
+        <Button variant="outline" size="sm" onClick={onClear}>
+          <Trash2 className="h-4 w-4 mr-2" />
+          Clear
+        </Button>
+        <Button variant="outline" size="sm" className="col-span-2" onClick={handleCopy} disabled={!schedule}>
+          <Copy className="h-4 w-4 mr-2" />
+          Copy schedule
+        </Button>
+        <Button size="sm" className="col-span-2" onClick={onShowOnMap}>
+          <Map className="h-4 w-4 mr-2" />
+          Show route on map
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CrawlPlanner;
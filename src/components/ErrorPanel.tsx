@@ -0,0 +1,68 @@
+import { AlertCircle, KeyRound, Gauge, WifiOff, SearchX, ServerCrash } from 'lucide-react';
+import { ProviderError, ProviderErrorKind, RecoveryAction, describeProviderError } from '@/services/errors';
+import { getProvider } from '@/services/providers';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+
+interface ErrorPanelProps {
+  error: ProviderError;
+  onRetry?: () => void;
+  onSwitchProvider?: () => void;
+  switchProviderLabel?: string;
+  onUseCache?: () => void;
+  onUseDemo?: () => void;
+}
+
+const icons: Record<ProviderErrorKind, typeof AlertCircle> = {
+  missing_key: KeyRound,
+  auth: KeyRound,
+  quota: Gauge,
+  network: WifiOff,
+  no_results: SearchX,
+  outage: ServerCrash,
+  unknown: AlertCircle,
+};
+
+/**
+ * Explains why bars couldn't be loaded and offers the recovery actions that
+ * apply to the error (and that the page can handle)
+ */
+const ErrorPanel = ({ error, onRetry, onSwitchProvider, switchProviderLabel, onUseCache, onUseDemo }: ErrorPanelProps) => {
+  const providerName = error.provider ? getProvider(error.provider)?.name : undefined;
+  const { title, message, actions } = describeProviderError(error, providerName);
+  const Icon = icons[error.kind];
+
+  const handlers: Record<RecoveryAction, { label: string; onClick?: () => void }> = {
+    retry: { label: 'Try Again', onClick: onRetry },
+    switch_provider: { label: switchProviderLabel ?? 'Switch Data Source', onClick: onSwitchProvider },
+    use_cache: { label: 'Show Saved Results', onClick: onUseCache },
+    use_demo: { label: 'Use Demo Data', onClick: onUseDemo },
+  };
+  const available = actions.filter((action) => handlers[action].onClick);
+
+  return (
+    <Alert variant={error.kind === 'no_results' ? 'default' : 'destructive'} className="mb-4">
+      <Icon className="h-4 w-4" />
+      <AlertTitle>{title}</AlertTitle>
+      <AlertDescription>
+        <p>{message}</p>
+        {available.length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-3">
+            {available.map((action, index) => (
+              <Button
+                key={action}
+                variant={index === 0 ? 'default' : 'outline'}
+                size="sm"
+                onClick={handlers[action].onClick}
+              >
+                {handlers[action].label}
+              </Button>
+            ))}
+          </div>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default ErrorPanel;
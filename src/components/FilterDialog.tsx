@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
-import { SlidersHorizontal, Star, MessageSquare, Navigation, TrendingUp, Clock } from 'lucide-react';
+import { SlidersHorizontal, Star, MessageSquare, Navigation, TrendingUp, Clock, Database, Activity, Route, Footprints, Circle } from 'lucide-react';
+import { Link } from 'react-router-dom';
 import {
   Dialog,
   DialogContent,
@@ -12,6 +13,12 @@ import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Separator } from '@/components/ui/separator';
+import { Slider } from '@/components/ui/slider';
+import { ProviderSelection, getLiveProviders, getProviders } from '@/services/providers';
+import { TravelMode, travelModes } from '@/services/routing';
+import { config } from '@/config/app';
+import { formatRadius } from '@/lib/utils';
+import OpenAtPicker from '@/components/OpenAtPicker';
 
 export type SortOption = 'rating' | 'distance' | 'price-low' | 'price-high' | 'reviews' | 'default';
 
@@ -22,6 +29,16 @@ interface FilterDialogProps {
   onMinRatingChange: (rating: number) => void;
   openOnly: boolean;
   onOpenOnlyChange: (openOnly: boolean) => void;
+  openAt: string | null;
+  onOpenAtChange: (openAt: string | null) => void;
+  provider: ProviderSelection;
+  onProviderChange: (provider: ProviderSelection) => void;
+  travelMode: TravelMode;
+  onTravelModeChange: (mode: TravelMode) => void;
+  radius: number;
+  onRadiusChange: (radius: number) => void;
+  walkMinutes: number | null;
+  onWalkMinutesChange: (minutes: number | null) => void;
 }
 
 const FilterDialog = ({
@@ -31,6 +48,16 @@ const FilterDialog = ({
   onMinRatingChange,
   openOnly,
   onOpenOnlyChange,
+  openAt,
+  onOpenAtChange,
+  provider,
+  onProviderChange,
+  travelMode,
+  onTravelModeChange,
+  radius,
+  onRadiusChange,
+  walkMinutes,
+  onWalkMinutesChange,
 }: FilterDialogProps) => {
   const [open, setOpen] = useState(false);
 
@@ -38,9 +65,10 @@ const FilterDialog = ({
     onSortChange('default');
     onMinRatingChange(0);
     onOpenOnlyChange(false);
+    onOpenAtChange(null);
   };
 
-  const hasActiveFilters = sortBy !== 'default' || minRating > 0 || openOnly;
+  const hasActiveFilters = sortBy !== 'default' || minRating > 0 || openOnly || !!openAt;
 
   return (
     <Dialog open={open} onOpenChange={setOpen}>
@@ -182,6 +210,113 @@ const FilterDialog = ({
                 <span>Show only bars that are open now</span>
               </Label>
             </div>
+            <div className="space-y-2">
+              <Label className="text-sm text-muted-foreground">Or plan for later: open at</Label>
+              <OpenAtPicker value={openAt} onChange={onOpenAtChange} />
+              {openAt && (
+                <p className="text-xs text-muted-foreground">
+                  Bars without opening hours are kept and marked "Hours unknown".
+                </p>
+              )}
+            </div>
+          </div>
+
+          <Separator />
+
+          {/* Search Area */}
+          <div className="space-y-3">
+            <Label className="text-base font-semibold">Search Area</Label>
+            <RadioGroup
+              value={walkMinutes ? walkMinutes.toString() : 'radius'}
+              onValueChange={(value) => onWalkMinutesChange(value === 'radius' ? null : Number(value))}
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="radius" id="area-radius" />
+                <Label htmlFor="area-radius" className="flex items-center gap-2 cursor-pointer">
+                  <Circle className="h-4 w-4 text-muted-foreground" />
+                  <span>Distance from the pin</span>
+                </Label>
+              </div>
+              <div className="pl-6 pr-1 space-y-2">
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>{formatRadius(config.map.minRadius)}</span>
+                  <span className="font-medium text-foreground">{formatRadius(radius)}</span>
+                  <span>{formatRadius(config.map.maxRadius)}</span>
+                </div>
+                <Slider
+                  value={[radius]}
+                  onValueChange={([value]) => onRadiusChange(value)}
+                  min={config.map.minRadius}
+                  max={config.map.maxRadius}
+                  step={config.map.radiusStep}
+                  disabled={!!walkMinutes}
+                  aria-label="Search radius"
+                />
+              </div>
+              {config.routing.isochrone.minutes.map((minutes) => (
+                <div key={minutes} className="flex items-center space-x-2">
+                  <RadioGroupItem value={minutes.toString()} id={`area-walk-${minutes}`} />
+                  <Label htmlFor={`area-walk-${minutes}`} className="flex items-center gap-2 cursor-pointer">
+                    <Footprints className="h-4 w-4 text-muted-foreground" />
+                    <span>Within {minutes} min walk</span>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <Separator />
+
+          {/* Travel Mode */}
+          <div className="space-y-3">
+            <Label className="text-base font-semibold">Directions</Label>
+            <RadioGroup value={travelMode} onValueChange={(value) => onTravelModeChange(value as TravelMode)}>
+              {travelModes.map((mode) => (
+                <div key={mode.value} className="flex items-center space-x-2">
+                  <RadioGroupItem value={mode.value} id={`travel-${mode.value}`} />
+                  <Label htmlFor={`travel-${mode.value}`} className="flex items-center gap-2 cursor-pointer">
+                    <Route className="h-4 w-4 text-muted-foreground" />
+                    <span>{mode.label}</span>
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+
+          <Separator />
+
+          {/* Data Source */}
+          <div className="space-y-3">
+            <Label className="text-base font-semibold">Data Source</Label>
+            <RadioGroup value={provider} onValueChange={(value) => onProviderChange(value as ProviderSelection)}>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="all" id="provider-all" disabled={getLiveProviders().length === 0} />
+                <Label htmlFor="provider-all" className="flex items-center gap-2 cursor-pointer">
+                  <Database className="h-4 w-4 text-muted-foreground" />
+                  <span>All sources (merged)</span>
+                </Label>
+              </div>
+              {getProviders().map((venueProvider) => (
+                <div key={venueProvider.id} className="flex items-center space-x-2">
+                  <RadioGroupItem
+                    value={venueProvider.id}
+                    id={`provider-${venueProvider.id}`}
+                    disabled={!venueProvider.isConfigured()}
+                  />
+                  <Label htmlFor={`provider-${venueProvider.id}`} className="flex items-center gap-2 cursor-pointer">
+                    <Database className="h-4 w-4 text-muted-foreground" />
+                    <span>{venueProvider.name}</span>
+                    {!venueProvider.isConfigured() && (
+                      <span className="text-xs text-muted-foreground">(API key missing)</span>
+                    )}
+                  </Label>
+                </div>
+              ))}
+            </RadioGroup>
+            <Link to="/diagnostics" className="inline-flex items-center gap-1 text-xs text-muted-foreground hover:text-primary">
+              <Activity className="h-3 w-3" />
+              Check provider status
+            </Link>
           </div>
         </div>
 
@@ -0,0 +1,50 @@
+import { useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+
+interface LoadMoreTriggerProps {
+  onLoadMore: () => void;
+  loading: boolean;
+  loadedCount: number;
+  total?: number;
+}
+
+/**
+ * Loads the next page when scrolled into view, with a button as fallback
+ */
+const LoadMoreTrigger = ({ onLoadMore, loading, loadedCount, total }: LoadMoreTriggerProps) => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || loading) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: '200px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [onLoadMore, loading]);
+
+  return (
+    <div ref={sentinelRef} className="flex flex-col items-center gap-2 py-8">
+      {loading ? (
+        <div className="h-6 w-6 border-4 border-primary/20 border-t-primary rounded-full animate-spin" />
+      ) : (
+        <Button variant="outline" size="sm" onClick={onLoadMore}>
+          Load more bars
+        </Button>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Showing {loadedCount}{total !== undefined ? ` of ${total}` : ''} bars
+      </p>
+    </div>
+  );
+};
+
+export default LoadMoreTrigger;
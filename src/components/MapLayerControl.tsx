@@ -0,0 +1,166 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Download, Layers, Trash2, X } from 'lucide-react';
+import { useTilePacks } from '@/hooks/use-tile-packs';
+import { Basemap, MapLayerId, TileBounds, basemaps, countPackTiles, mapLayers } from '@/services/tiles';
+import { config } from '@/config/app';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Progress } from '@/components/ui/progress';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Separator } from '@/components/ui/separator';
+
+export type MapOverlay = 'none' | 'density' | 'rating';
+
+const mapOverlays: Array<{ value: MapOverlay; label: string }> = [
+  { value: 'none', label: 'None' },
+  { value: 'density', label: 'Bar density' },
+  { value: 'rating', label: 'Average rating' },
+];
+
+export interface MapViewport {
+  bounds: TileBounds;
+  zoom: number;
+}
+
+interface MapLayerControlProps {
+  layer: MapLayerId;
+  onLayerChange: (layer: MapLayerId) => void;
+  basemap: Basemap; // Basemap currently shown
+  overlay: MapOverlay;
+  onOverlayChange: (overlay: MapOverlay) => void;
+  getViewport: () => MapViewport | null;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Map style and overlay picker plus offline maps: saves the visible area of
+ * the current basemap so it still shows without signal
+ */
+const MapLayerControl = ({ layer, onLayerChange, basemap, overlay, onOverlayChange, getViewport }: MapLayerControlProps) => {
+  const { packs, progress, error, download, cancel, remove } = useTilePacks();
+  // Area that would be saved, taken when the control opens
+  const [viewport, setViewport] = useState<MapViewport | null>(null);
+
+  const minZoom = viewport ? Math.max(0, Math.floor(viewport.zoom) - config.tiles.packZoomsOut) : 0;
+  const maxZoom = viewport ? Math.min(Math.floor(viewport.zoom), config.tiles.packMaxZoom) : 0;
+  const tileCount = viewport ? countPackTiles(viewport.bounds, minZoom, maxZoom) : 0;
+  const tooLarge = tileCount > config.tiles.maxPackTiles;
+
+  const basemapLabel = (id: string) => basemaps.find((candidate) => candidate.id === id)?.label ?? id;
+  // Offline maps need a basemap that may be saved, or packs saved before
+  const downloadableBasemap = basemaps.find((candidate) => candidate.downloadable);
+  const showOfflineMaps = !!downloadableBasemap || packs.length > 0;
+
+  return (
+    <Popover onOpenChange={(open) => open && setViewport(getViewport())}>
+      <PopoverTrigger asChild>
+        <button
+          className="bg-card/90 backdrop-blur-sm border border-primary/20 rounded-lg p-2 shadow-lg hover:bg-card transition-colors"
+          aria-label="Map layers and offline maps"
+        >
+          <Layers className="h-4 w-4" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-4" align="start" side="right">
+        <div className="space-y-3">
+          <Label className="text-sm font-semibold">Map style</Label>
+          <RadioGroup value={layer} onValueChange={(value) => onLayerChange(value as MapLayerId)}>
+            {mapLayers.map((option) => (
+              <div key={option.value} className="flex items-center space-x-2">
+                <RadioGroupItem value={option.value} id={`map-layer-${option.value}`} />
+                <Label htmlFor={`map-layer-${option.value}`} className="cursor-pointer">{option.label}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+
+        <Separator />
+
+        <div className="space-y-3">
+          <Label className="text-sm font-semibold">Overlay</Label>
+          <RadioGroup value={overlay} onValueChange={(value) => onOverlayChange(value as MapOverlay)}>
+            {mapOverlays.map((option) => (
+              <div key={option.value} className="flex items-center space-x-2">
+                <RadioGroupItem value={option.value} id={`map-overlay-${option.value}`} />
+                <Label htmlFor={`map-overlay-${option.value}`} className="cursor-pointer">{option.label}</Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+
+        {showOfflineMaps && (
+          <>
+            <Separator />
+
+            <div className="space-y-3">
+              <Label className="text-sm font-semibold">Offline maps</Label>
+              {!basemap.downloadable ? (
+                <p className="text-xs text-muted-foreground">
+                  The {basemap.label.toLowerCase()} map can't be saved for offline use.
+                  {downloadableBasemap && ` Switch to the ${downloadableBasemap.label.toLowerCase()} map to save this area.`}
+                </p>
+              ) : progress ? (
+                <div className="space-y-2">
+                  <Progress value={progress.total ? (progress.done / progress.total) * 100 : 0} className="h-2" />
+                  <div className="flex items-center justify-between text-xs text-muted-foreground">
+                    <span>Saving {progress.done} of {progress.total || tileCount} tiles...</span>
+                    <Button variant="ghost" size="sm" className="h-7 px-2" onClick={cancel}>
+                      <X className="h-3 w-3 mr-1" />
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <p className="text-xs text-muted-foreground">
+                    Saves the visible area of the {basemap.label.toLowerCase()} map, zoom {minZoom}–{maxZoom}, so it works without signal.
+                  </p>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full"
+                    disabled={!viewport || tooLarge}
+                    onClick={() => viewport && download(basemap, viewport.bounds, minZoom, maxZoom)}
+                  >
+                    <Download className="h-4 w-4 mr-2" />
+                    {tooLarge ? 'Zoom in to save this area' : `Save visible area (${tileCount} tiles)`}
+                  </Button>
+                </>
+              )}
+              {error && <p className="text-xs text-destructive">{error.message}</p>}
+
+              {packs.length > 0 && (
+                <ul className="space-y-1">
+                  {packs.map((pack) => (
+                    <li key={pack.id} className="flex items-center justify-between gap-2 text-xs">
+                      <span className="text-muted-foreground">
+                        {basemapLabel(pack.basemap)} • {format(pack.createdAt, 'd MMM HH:mm')} • {formatBytes(pack.bytes)}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-7 w-7"
+                        onClick={() => remove(pack.id)}
+                        aria-label="Delete offline map"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default MapLayerControl;
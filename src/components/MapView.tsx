@@ -1,9 +1,21 @@
-import { useEffect, useRef } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
 import 'leaflet-routing-machine/dist/leaflet-routing-machine.css';
 import 'leaflet-routing-machine';
 import { Bar } from '@/data/bars';
+import { Coordinates } from '@/hooks/use-geolocation';
+import { SearchArea } from '@/hooks/use-explore-state';
+import { getDistanceInMeters, movePoint } from '@/lib/geo';
+import { formatRadius } from '@/lib/utils';
+import { config } from '@/config/app';
+import { TravelMode, fetchRoute, getOsrmProfile, getRoutingUrl } from '@/services/routing';
+import { clusterPoints } from '@/lib/cluster';
+import { hexBin, hexCorners } from '@/lib/hexbin';
+import { useTheme } from 'next-themes';
+import { Basemap, BasemapId, MapLayerId, getMapLayer, getSavedTile, resolveBasemap, setMapLayer } from '@/services/tiles';
+import { useTilePacks } from '@/hooks/use-tile-packs';
+import MapLayerControl, { MapOverlay, MapViewport } from '@/components/MapLayerControl';
 
 interface MapViewProps {
   bars: Bar[];
@@ -13,7 +25,13 @@ interface MapViewProps {
   userLocation: { latitude: number; longitude: number } | null;
   onLocationChange?: (coordinates: { latitude: number; longitude: number }) => void;
   radius?: number; // radius in meters
+  onRadiusChange?: (radius: number) => void; // Enables the drag handle on the circle's edge
+  walkableArea?: Coordinates[]; // Walking-time search area, drawn instead of the radius circle
+  searchArea?: SearchArea | null; // Area searched with "Search this area", if not around the pin
+  onSearchArea?: (area: SearchArea) => void; // Search the visible part of the map
   routeToBar?: Bar | null; // Bar to show route to
+  crawlStops?: Bar[]; // Bar crawl to show as one route through every stop
+  travelMode?: TravelMode; // For directions to a single bar; crawls are always walked
   onRouteClose?: () => void; // Callback when route is cleared
 }
 
@@ -26,13 +44,385 @@ L.Icon.Default.mergeOptions({
   shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.9.4/images/marker-shadow.png',
 });
 
-const MapView = ({ bars, selectedBar, onBarSelect, favorites, userLocation, onLocationChange, radius = 500, routeToBar, onRouteClose }: MapViewProps) => {
+/**
+ * Round marker showing the bar's photo, outlined when it's a favorite
+ */
+function createBarIcon(bar: Bar, isFavorite: boolean): L.DivIcon {
+  return L.divIcon({
+    className: 'custom-marker',
+    html: `
+      <div class="marker-pin" style="
+        width: 40px;
+        height: 40px;
+        background-image: url('${bar.image}');
+        background-size: cover;
+        background-position: center;
+        border-radius: 50%;
+        border: 3px solid ${isFavorite ? 'hsl(32, 95%, 58%)' : 'white'};
+        cursor: pointer;
+        box-shadow: 0 2px 8px rgba(0,0,0,0.3);
+      "></div>
+    `,
+    iconSize: [40, 40],
+    iconAnchor: [20, 20],
+  });
+}
+
+/**
+ * Bubble with the number of bars in a cluster, larger for bigger clusters
+ */
+function createClusterIcon(count: number): L.DivIcon {
+  const size = count < 10 ? 36 : count < 50 ? 44 : 52;
+  return L.divIcon({
+    className: 'bar-cluster-marker',
+    html: `<div class="bar-cluster" style="width: ${size}px; height: ${size}px;">${count}</div>`,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
+}
+
+interface BarMarker {
+  marker: L.Marker;
+  bar: Bar;
+  signature: string; // Image and favorite state the icon was drawn with
+}
+
+interface ClusterMarker {
+  marker: L.Marker;
+  bars: Bar[];
+}
+
+/**
+ * leaflet-routing-machine router backed by the routing service, used for
+ * Valhalla since the machine only talks to OSRM itself. Routes come without
+ * turn-by-turn instructions.
+ */
+function createServiceRouter(mode: TravelMode) {
+  return {
+    route(
+      waypoints: L.Routing.Waypoint[],
+      callback: (error: unknown, routes?: unknown[]) => void,
+      context?: unknown
+    ) {
+      const points = waypoints.map((waypoint) => ({ latitude: waypoint.latLng.lat, longitude: waypoint.latLng.lng }));
+      fetchRoute(points, mode, { geometry: true })
+        .then((route) =>
+          callback.call(context, null, [
+            {
+              name: '',
+              coordinates: (route.coordinates ?? []).map(([lat, lng]) => L.latLng(lat, lng)),
+              instructions: [],
+              summary: { totalDistance: route.distance, totalTime: route.duration },
+              inputWaypoints: waypoints,
+              waypoints,
+            },
+          ])
+        )
+        .catch((error: Error) => callback.call(context, { status: -1, message: error.message }));
+    },
+  };
+}
+
+/**
+ * Tile layer that shows tiles saved in offline packs from IndexedDB and only
+ * requests the ones missing from the tile server
+ */
+class SavedTileLayer extends L.TileLayer {
+  constructor(private readonly basemapId: BasemapId, url: string, options: L.TileLayerOptions) {
+    super(url, options);
+  }
+
+  protected createTile(coords: L.Coords, done: L.DoneCallback): HTMLElement {
+    const tile = document.createElement('img');
+    tile.alt = '';
+    tile.setAttribute('role', 'presentation');
+    tile.onload = () => {
+      if (tile.src.startsWith('blob:')) URL.revokeObjectURL(tile.src);
+      done(undefined, tile);
+    };
+    tile.onerror = () => done(new Error(`Tile ${coords.z}/${coords.x}/${coords.y} failed to load`), tile);
+
+    getSavedTile(this.basemapId, coords)
+      .then((blob) => {
+        tile.src = blob ? URL.createObjectURL(blob) : this.getTileUrl(coords);
+      })
+      .catch(() => {
+        tile.src = this.getTileUrl(coords);
+      });
+    return tile;
+  }
+}
+
+/**
+ * Tile layer for a basemap; saved tiles are only looked up once a pack exists
+ */
+function createTileLayer(basemap: Basemap, useSavedTiles: boolean): L.TileLayer {
+  const options: L.TileLayerOptions = {
+    attribution: basemap.attribution,
+    subdomains: basemap.subdomains ?? 'abc',
+    maxZoom: basemap.maxZoom,
+  };
+  return useSavedTiles ? new SavedTileLayer(basemap.id, basemap.url, options) : L.tileLayer(basemap.url, options);
+}
+
+/**
+ * Fill of a density overlay hexagon. Density shades by the share of the
+ * busiest hexagon; rating goes from red at 3 stars to green at 5.
+ */
+function getHexStyle(overlay: MapOverlay, count: number, maxCount: number, averageRating?: number): L.PathOptions {
+  if (overlay === 'density') {
+    return { fillColor: 'hsl(189, 94%, 58%)', fillOpacity: 0.15 + 0.55 * (count / maxCount) };
+  }
+  if (averageRating === undefined) {
+    return { fillColor: 'hsl(215, 16%, 65%)', fillOpacity: 0.25 };
+  }
+  const hue = Math.round(Math.min(1, Math.max(0, (averageRating - 3) / 2)) * 120);
+  return { fillColor: `hsl(${hue}, 85%, 50%)`, fillOpacity: 0.5 };
+}
+
+/**
+ * Snaps a dragged radius to the slider's steps and range
+ */
+function clampRadius(meters: number): number {
+  const { minRadius, maxRadius, radiusStep } = config.map;
+  return Math.min(maxRadius, Math.max(minRadius, Math.round(meters / radiusStep) * radiusStep));
+}
+
+/**
+ * Point on the east edge of the radius circle, where its handle sits
+ */
+function radiusHandlePosition(center: L.LatLng, radius: number): L.LatLngExpression {
+  const edge = movePoint({ latitude: center.lat, longitude: center.lng }, radius, 90);
+  return [edge.latitude, edge.longitude];
+}
+
+const MapView = ({ bars, selectedBar, onBarSelect, favorites, userLocation, onLocationChange, radius = 500, onRadiusChange, walkableArea, searchArea, onSearchArea, routeToBar, crawlStops, travelMode = 'walk', onRouteClose }: MapViewProps) => {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<L.Map | null>(null);
-  const markersRef = useRef<L.Marker[]>([]);
+  const barMarkersRef = useRef(new Map<string, BarMarker>());
+  const clusterMarkersRef = useRef(new Map<string, ClusterMarker>()); // Keyed by the ids of their bars
+  const clusterLayerRef = useRef<L.LayerGroup | null>(null);
   const userMarkerRef = useRef<L.Marker | null>(null);
   const radiusCircleRef = useRef<L.Circle | null>(null);
+  const radiusHandleRef = useRef<L.Marker | null>(null);
+  const walkableAreaRef = useRef<L.Polygon | null>(null);
   const routingControlRef = useRef<L.Routing.Control | null>(null);
+  const tileLayerRef = useRef<L.TileLayer | null>(null);
+  const densityLayerRef = useRef<L.LayerGroup | null>(null);
+
+  // Basemap: chosen in the layer control, light or dark with the app theme by default
+  const { resolvedTheme } = useTheme();
+  const [layer, setLayer] = useState<MapLayerId>(getMapLayer);
+  const basemap = resolveBasemap(layer, resolvedTheme);
+  const { packs } = useTilePacks();
+  const hasSavedTiles = packs.some((pack) => pack.basemap === basemap.id);
+
+  // Density overlay of the current results
+  const [overlay, setOverlay] = useState<MapOverlay>('none');
+  const overlayRef = useRef(overlay);
+  overlayRef.current = overlay;
+
+  const handleLayerChange = (next: MapLayerId) => {
+    setLayer(next);
+    setMapLayer(next);
+  };
+
+  const getViewport = (): MapViewport | null => {
+    if (!map.current) return null;
+    const bounds = map.current.getBounds();
+    return {
+      bounds: { north: bounds.getNorth(), south: bounds.getSouth(), east: bounds.getEast(), west: bounds.getWest() },
+      zoom: map.current.getZoom(),
+    };
+  };
+
+  // Kept in a ref so a new callback identity doesn't rebuild the user marker
+  const onLocationChangeRef = useRef(onLocationChange);
+  onLocationChangeRef.current = onLocationChange;
+  const onRadiusChangeRef = useRef(onRadiusChange);
+  onRadiusChangeRef.current = onRadiusChange;
+  const radiusEditable = !!onRadiusChange;
+
+  // Resizing the circle only updates it in place; the pin effect reads the
+  // radius from here so it doesn't recenter the map
+  const radiusRef = useRef(radius);
+  radiusRef.current = radius;
+  // Radius shown while the circle's handle is being dragged
+  const [draftRadius, setDraftRadius] = useState<number | null>(null);
+
+  // Visible area, once the map was panned away from the searched area
+  const [viewArea, setViewArea] = useState<SearchArea | null>(null);
+  const searchedRef = useRef<SearchArea | null>(null);
+  searchedRef.current = searchArea ?? (userLocation ? { center: userLocation, radius } : null);
+
+  /**
+   * Offers "Search this area" once the center of the view has moved a
+   * quarter of the view away from the center of the searched area
+   */
+  const trackViewport = useCallback(() => {
+    const mapInstance = map.current;
+    const searched = searchedRef.current;
+    if (!mapInstance || !searched) return;
+
+    const { lat, lng } = mapInstance.getCenter();
+    const center = { latitude: lat, longitude: lng };
+    const bounds = mapInstance.getBounds();
+    // Circle around the whole view, corners included
+    const viewRadius = getDistanceInMeters(center, { latitude: bounds.getNorth(), longitude: bounds.getEast() });
+    const moved = getDistanceInMeters(center, searched.center) > viewRadius * 0.25;
+    setViewArea(moved ? { center, radius: Math.round(viewRadius) } : null);
+  }, []);
+
+  // Kept in refs so the map's move listener renders the latest bars
+  const barsRef = useRef(bars);
+  barsRef.current = bars;
+  const favoritesRef = useRef(favorites);
+  favoritesRef.current = favorites;
+  const onBarSelectRef = useRef(onBarSelect);
+  onBarSelectRef.current = onBarSelect;
+
+  /**
+   * Shows the bars inside the view: one marker per bar when zoomed in,
+   * clusters further out. Bar markers are kept by id and only touched when
+   * their bar or favorite state changed; clusters are kept by the ids of their
+   * bars and only moved when the same bars cluster again.
+   */
+  const renderMarkers = useCallback(() => {
+    const mapInstance = map.current;
+    const clusterLayer = clusterLayerRef.current;
+    if (!mapInstance || !clusterLayer) return;
+
+    const zoom = mapInstance.getZoom();
+    const bounds = mapInstance.getBounds().pad(config.map.viewportPadding);
+    const visible = barsRef.current.filter((bar) => bounds.contains([bar.coordinates[1], bar.coordinates[0]]));
+    const groups =
+      zoom >= config.map.clusterMaxZoom
+        ? visible.map((bar) => ({ items: [bar], center: { x: 0, y: 0 } }))
+        : clusterPoints(
+            visible,
+            (bar) => mapInstance.project([bar.coordinates[1], bar.coordinates[0]], zoom),
+            config.map.clusterCellSize
+          );
+
+    const barMarkers = barMarkersRef.current;
+    const clusterMarkers = clusterMarkersRef.current;
+    const shown = new Set<string>();
+    const shownClusters = new Set<string>();
+
+    groups.forEach(({ items, center }) => {
+      if (items.length > 1) {
+        const key = items
+          .map((bar) => bar.id)
+          .sort()
+          .join(',');
+        const position = mapInstance.unproject([center.x, center.y], zoom);
+        const existing = clusterMarkers.get(key);
+        shownClusters.add(key);
+
+        if (existing) {
+          existing.bars = items;
+          if (!existing.marker.getLatLng().equals(position)) existing.marker.setLatLng(position);
+          return;
+        }
+
+        const entry: ClusterMarker = {
+          marker: L.marker(position, { icon: createClusterIcon(items.length) }),
+          bars: items,
+        };
+        entry.marker.on('click', () => {
+          mapInstance.fitBounds(
+            L.latLngBounds(entry.bars.map((bar) => [bar.coordinates[1], bar.coordinates[0]] as [number, number])),
+            { padding: [40, 40], maxZoom: config.map.clusterMaxZoom }
+          );
+        });
+        clusterLayer.addLayer(entry.marker);
+        clusterMarkers.set(key, entry);
+        return;
+      }
+
+      const bar = items[0];
+      const isFavorite = favoritesRef.current.has(bar.id);
+      const signature = `${bar.image}|${isFavorite}`;
+      const position: [number, number] = [bar.coordinates[1], bar.coordinates[0]];
+      const existing = barMarkers.get(bar.id);
+      shown.add(bar.id);
+
+      if (existing) {
+        existing.bar = bar;
+        if (existing.signature !== signature) {
+          existing.marker.setIcon(createBarIcon(bar, isFavorite));
+          existing.signature = signature;
+        }
+        if (!existing.marker.getLatLng().equals(position)) existing.marker.setLatLng(position);
+        return;
+      }
+
+      const entry: BarMarker = {
+        marker: L.marker(position, { icon: createBarIcon(bar, isFavorite) }).addTo(mapInstance),
+        bar,
+        signature,
+      };
+      entry.marker.on('click', () => onBarSelectRef.current(entry.bar));
+      barMarkers.set(bar.id, entry);
+    });
+
+    barMarkers.forEach((entry, id) => {
+      if (!shown.has(id)) {
+        entry.marker.remove();
+        barMarkers.delete(id);
+      }
+    });
+    clusterMarkers.forEach((entry, key) => {
+      if (!shownClusters.has(key)) {
+        clusterLayer.removeLayer(entry.marker);
+        clusterMarkers.delete(key);
+      }
+    });
+  }, []);
+
+  /**
+   * Hex-bins all results at the current zoom and shades each hexagon by its
+   * number of bars or their average rating
+   */
+  const renderDensity = useCallback(() => {
+    const mapInstance = map.current;
+    const densityLayer = densityLayerRef.current;
+    if (!mapInstance || !densityLayer) return;
+
+    densityLayer.clearLayers();
+    const mode = overlayRef.current;
+    if (mode === 'none') return;
+
+    const zoom = mapInstance.getZoom();
+    const radius = config.map.hexRadius;
+    const bins = hexBin(
+      barsRef.current,
+      (bar) => mapInstance.project([bar.coordinates[1], bar.coordinates[0]], zoom),
+      radius
+    );
+    const maxCount = Math.max(...bins.map((bin) => bin.items.length));
+
+    bins.forEach(({ items, center }) => {
+      const rated = items.filter((bar) => bar.rating > 0);
+      const averageRating = rated.length
+        ? rated.reduce((sum, bar) => sum + bar.rating, 0) / rated.length
+        : undefined;
+      const corners = hexCorners(center, radius).map((corner) => mapInstance.unproject([corner.x, corner.y], zoom));
+
+      L.polygon(corners, {
+        ...getHexStyle(mode, items.length, maxCount, averageRating),
+        color: 'white',
+        weight: 1,
+        opacity: 0.3,
+      })
+        .bindTooltip(
+          `${items.length} ${items.length === 1 ? 'bar' : 'bars'}` +
+            (averageRating !== undefined ? ` • ★ ${averageRating.toFixed(1)} average` : ''),
+          { direction: 'top', sticky: true }
+        )
+        .addTo(densityLayer);
+    });
+  }, []);
 
   useEffect(() => {
     if (!mapContainer.current || map.current) return;
@@ -49,81 +439,53 @@ const MapView = ({ bars, selectedBar, onBarSelect, favorites, userLocation, onLo
       zoomControl: true,
     });
 
-    // Add OpenStreetMap tiles (no API key needed!)
-    L.tileLayer('https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png', {
-      attribution: '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>',
-      subdomains: 'abcd',
-      maxZoom: 20,
-    }).addTo(map.current);
+    // Clusters come and go with the zoom level, so they share one layer
+    clusterLayerRef.current = L.layerGroup().addTo(map.current);
+    // Hexagons are sized in pixels, so they are rebuilt for every zoom level
+    densityLayerRef.current = L.layerGroup().addTo(map.current);
+    map.current.on('zoomend', renderDensity);
+    map.current.on('moveend', renderMarkers);
+    map.current.on('moveend', trackViewport);
+    const barMarkers = barMarkersRef.current;
+    const clusterMarkers = clusterMarkersRef.current;
 
     return () => {
       if (map.current) {
         map.current.remove();
         map.current = null;
       }
+      clusterLayerRef.current = null;
+      densityLayerRef.current = null;
+      tileLayerRef.current = null;
+      barMarkers.clear();
+      clusterMarkers.clear();
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  // Update markers when bars or favorites change
+  // Swap the basemap tiles (no API key needed!)
   useEffect(() => {
     if (!map.current) return;
+    tileLayerRef.current?.remove();
+    tileLayerRef.current = createTileLayer(basemap, hasSavedTiles).addTo(map.current);
+  }, [basemap, hasSavedTiles]);
 
-    // Clear existing bar markers
-    markersRef.current.forEach(marker => marker.remove());
-    markersRef.current = [];
-
-    // Add markers for each bar
-    bars.forEach((bar) => {
-      // Create custom icon with bar image
-      const customIcon = L.divIcon({
-        className: 'custom-marker',
-        html: `
-          <div class="marker-pin" style="
-            width: 40px;
-            height: 40px;
-            background-image: url('${bar.image}');
-            background-size: cover;
-            background-position: center;
-            border-radius: 50%;
-            border: 3px solid ${favorites.has(bar.id) ? 'hsl(32, 95%, 58%)' : 'white'};
-            cursor: pointer;
-            box-shadow: 0 2px 8px rgba(0,0,0,0.3);
-            transition: transform 0.2s ease-in-out;
-          "></div>
-        `,
-        iconSize: [40, 40],
-        iconAnchor: [20, 20],
-      });
-
-      const marker = L.marker([bar.coordinates[1], bar.coordinates[0]], {
-        icon: customIcon,
-      }).addTo(map.current!);
-
-      marker.on('click', () => {
-        onBarSelect(bar);
-      });
-
-      // Add hover effect to the inner pin element, not the marker container
-      const markerElement = marker.getElement();
-      if (markerElement) {
-        const pinElement = markerElement.querySelector('.marker-pin') as HTMLElement;
-        if (pinElement) {
-          markerElement.addEventListener('mouseenter', () => {
-            pinElement.style.transform = 'scale(1.2)';
-          });
+  // Render bar markers for the current view whenever the bars or favorites change
+  useEffect(() => {
+    renderMarkers();
+  }, [bars, favorites, renderMarkers]);
 
-          markerElement.addEventListener('mouseleave', () => {
-            pinElement.style.transform = 'scale(1)';
-          });
-        }
-      }
+  // Rebuild the density overlay for new results or when it is switched
+  useEffect(() => {
+    renderDensity();
+  }, [bars, overlay, renderDensity]);
 
-      markersRef.current.push(marker);
-    });
-  }, [bars, favorites, onBarSelect]);
+  // A new search (or pin position) may cover the view again
+  useEffect(() => {
+    trackViewport();
+  }, [searchArea, userLocation, radius, trackViewport]);
 
-  // Add/update user location marker
+  // Add/update user location marker and the searched circle or walking area
   useEffect(() => {
     if (!map.current || !userLocation) return;
 
@@ -132,24 +494,73 @@ const MapView = ({ bars, selectedBar, onBarSelect, favorites, userLocation, onLo
       userMarkerRef.current.remove();
     }
 
-    // Remove existing radius circle
+    // Remove existing radius circle or walking area
     if (radiusCircleRef.current) {
       radiusCircleRef.current.remove();
+      radiusCircleRef.current = null;
+    }
+    if (radiusHandleRef.current) {
+      radiusHandleRef.current.remove();
+      radiusHandleRef.current = null;
+    }
+    if (walkableAreaRef.current) {
+      walkableAreaRef.current.remove();
+      walkableAreaRef.current = null;
     }
 
-    // Add radius circle with dynamic radius
-    radiusCircleRef.current = L.circle(
-      [userLocation.latitude, userLocation.longitude],
-      {
-        radius: radius, // Use the dynamic radius prop
-        color: 'hsl(189, 94%, 58%)',
-        fillColor: 'hsl(189, 94%, 58%)',
-        fillOpacity: 0.1,
-        weight: 2,
-        opacity: 0.5,
-        dashArray: '10, 10',
+    const areaStyle = {
+      color: 'hsl(189, 94%, 58%)',
+      fillColor: 'hsl(189, 94%, 58%)',
+      fillOpacity: 0.1,
+      weight: 2,
+      opacity: 0.5,
+      dashArray: '10, 10',
+    };
+
+    if (walkableArea) {
+      // Walking-time search: the area reachable on foot
+      walkableAreaRef.current = L.polygon(
+        walkableArea.map((point) => [point.latitude, point.longitude] as [number, number]),
+        areaStyle
+      ).addTo(map.current);
+    } else {
+      // Add radius circle with dynamic radius
+      const circle = L.circle(
+        [userLocation.latitude, userLocation.longitude],
+        { ...areaStyle, radius: radiusRef.current }
+      ).addTo(map.current);
+      radiusCircleRef.current = circle;
+
+      if (radiusEditable) {
+        // Handle on the circle's edge to resize it
+        const handle = L.marker(radiusHandlePosition(circle.getLatLng(), radiusRef.current), {
+          icon: L.divIcon({
+            className: 'radius-handle',
+            html: '<div class="radius-handle-dot"></div>',
+            iconSize: [16, 16],
+            iconAnchor: [8, 8],
+          }),
+          draggable: true,
+        }).addTo(map.current);
+        radiusHandleRef.current = handle;
+
+        handle.on('drag', () => {
+          const next = clampRadius(circle.getLatLng().distanceTo(handle.getLatLng()));
+          circle.setRadius(next);
+          setDraftRadius(next);
+        });
+        handle.on('dragend', () => {
+          const next = clampRadius(circle.getLatLng().distanceTo(handle.getLatLng()));
+          handle.setLatLng(radiusHandlePosition(circle.getLatLng(), next));
+          onRadiusChangeRef.current?.(next);
+        });
+        handle.bindTooltip('Drag to change the search radius', {
+          permanent: false,
+          direction: 'right',
+          offset: [10, 0],
+        });
       }
-    ).addTo(map.current);
+    }
 
     // Create user location marker with pulsing blue dot
     const userIcon = L.divIcon({
@@ -184,14 +595,17 @@ const MapView = ({ bars, selectedBar, onBarSelect, favorites, userLocation, onLo
       if (userMarkerRef.current && radiusCircleRef.current) {
         const newPos = userMarkerRef.current.getLatLng();
         radiusCircleRef.current.setLatLng(newPos);
+        radiusHandleRef.current?.setLatLng(radiusHandlePosition(newPos, radiusCircleRef.current.getRadius()));
       }
+      // The walking area belongs to the old position; the new one loads after the drop
+      walkableAreaRef.current?.remove();
     });
 
     // Handle drag end event
     userMarkerRef.current.on('dragend', () => {
-      if (userMarkerRef.current && onLocationChange) {
+      if (userMarkerRef.current && onLocationChangeRef.current) {
         const newPos = userMarkerRef.current.getLatLng();
-        onLocationChange({
+        onLocationChangeRef.current({
           latitude: newPos.lat,
           longitude: newPos.lng,
         });
@@ -204,10 +618,22 @@ const MapView = ({ bars, selectedBar, onBarSelect, favorites, userLocation, onLo
       direction: 'top',
       offset: [0, -15],
     });
+  }, [userLocation, walkableArea, radiusEditable]);
 
-    // Center map on user location
+  // Center the map on a new location only; redrawing the area above keeps the user's view
+  useEffect(() => {
+    if (!map.current || !userLocation) return;
     map.current.setView([userLocation.latitude, userLocation.longitude], 15);
-  }, [userLocation, onLocationChange, radius]);
+  }, [userLocation]);
+
+  // Resize the circle (from the slider or the handle) without moving the map
+  useEffect(() => {
+    setDraftRadius(null);
+    const circle = radiusCircleRef.current;
+    if (!circle) return;
+    circle.setRadius(radius);
+    radiusHandleRef.current?.setLatLng(radiusHandlePosition(circle.getLatLng(), radius));
+  }, [radius]);
 
   // Fly to selected bar
   useEffect(() => {
@@ -218,7 +644,7 @@ const MapView = ({ bars, selectedBar, onBarSelect, favorites, userLocation, onLo
     }
   }, [selectedBar]);
 
-  // Handle routing to a bar
+  // Handle routing to a bar, or through the stops of a bar crawl
   useEffect(() => {
     if (!map.current) return;
 
@@ -229,13 +655,14 @@ const MapView = ({ bars, selectedBar, onBarSelect, favorites, userLocation, onLo
     }
 
     // Add new route if requested
-    if (routeToBar && userLocation) {
-      const [barLng, barLat] = routeToBar.coordinates;
-      
+    const stops = routeToBar ? [routeToBar] : crawlStops ?? [];
+    const isCrawl = !routeToBar && stops.length > 0;
+    const mode = isCrawl ? 'walk' : travelMode;
+    if (stops.length > 0 && userLocation) {
       routingControlRef.current = L.Routing.control({
         waypoints: [
           L.latLng(userLocation.latitude, userLocation.longitude),
-          L.latLng(barLat, barLng)
+          ...stops.map((stop) => L.latLng(stop.coordinates[1], stop.coordinates[0])),
         ],
         routeWhileDragging: false,
         addWaypoints: false,
@@ -248,15 +675,27 @@ const MapView = ({ bars, selectedBar, onBarSelect, favorites, userLocation, onLo
         },
         show: true,
         collapsible: true,
-        // Hide the default waypoint markers - we use our own
-        createMarker: function() {
-          return null;
+        // Hide the default waypoint markers - we use our own, plus the
+        // stop numbers of a crawl
+        createMarker: function(index: number, waypoint: L.Routing.Waypoint) {
+          if (!isCrawl || index === 0) return null;
+          return L.marker(waypoint.latLng, {
+            icon: L.divIcon({
+              className: 'crawl-stop-marker',
+              html: `<div class="crawl-stop-number">${index}</div>`,
+              iconSize: [22, 22],
+              iconAnchor: [11, 30],
+            }),
+            interactive: false,
+          });
         },
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        router: (L.Routing as any).osrmv1({
-          serviceUrl: 'https://routing.openstreetmap.de/routed-foot/route/v1',
-          // German OSRM server with foot profile for walking directions
-        })
+        router: config.routing.engine === 'valhalla'
+          ? createServiceRouter(mode)
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          : (L.Routing as any).osrmv1({
+              serviceUrl: `${getRoutingUrl(mode)}/route/v1`,
+              profile: getOsrmProfile(mode),
+            })
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       } as any).addTo(map.current);
 
@@ -302,14 +741,68 @@ const MapView = ({ bars, selectedBar, onBarSelect, favorites, userLocation, onLo
         routingControlRef.current = null;
       }
     };
-  }, [routeToBar, userLocation]);
+  }, [routeToBar, crawlStops, userLocation, travelMode]);
 
   return (
-    <div className="relative w-full h-full">
+    <div className="relative w-full h-full isolate">
       <div ref={mapContainer} className="absolute inset-0 rounded-lg overflow-hidden" />
       
+      {/* Map layers and offline maps, below the zoom buttons */}
+      <div className="absolute top-[84px] left-[10px] z-[1000]">
+        <MapLayerControl
+          layer={layer}
+          onLayerChange={handleLayerChange}
+          basemap={basemap}
+          overlay={overlay}
+          onOverlayChange={setOverlay}
+          getViewport={getViewport}
+        />
+      </div>
+
+      {/* Density overlay legend */}
+      {overlay !== 'none' && bars.length > 0 && (
+        <div className="absolute bottom-4 left-4 z-[1000] pointer-events-none">
+          <div className="bg-card/90 backdrop-blur-sm border border-primary/20 rounded-lg px-3 py-2 shadow-lg space-y-1">
+            <p className="text-xs font-medium">{overlay === 'density' ? 'Bars per area' : 'Average rating'}</p>
+            <div
+              className="h-2 w-32 rounded-full"
+              style={{
+                background:
+                  overlay === 'density'
+                    ? 'linear-gradient(90deg, hsla(189, 94%, 58%, 0.15), hsla(189, 94%, 58%, 0.7))'
+                    : 'linear-gradient(90deg, hsl(0, 85%, 50%), hsl(60, 85%, 50%), hsl(120, 85%, 50%))',
+              }}
+            />
+            <div className="flex justify-between text-[10px] text-muted-foreground">
+              <span>{overlay === 'density' ? 'Fewer' : '★ 3'}</span>
+              <span>{overlay === 'density' ? 'More' : '★ 5'}</span>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Search this area button */}
+      {viewArea && onSearchArea && (
+        <div className="absolute top-4 left-1/2 -translate-x-1/2 z-[1000]">
+          <button
+            onClick={() => {
+              onSearchArea(viewArea);
+              setViewArea(null);
+            }}
+            disabled={viewArea.radius > config.map.maxAreaSearchRadius}
+            className="bg-card/90 backdrop-blur-sm border border-primary/20 rounded-full px-4 py-2 shadow-lg hover:bg-card transition-colors flex items-center gap-2 text-sm font-medium disabled:opacity-70 disabled:cursor-not-allowed"
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+              <circle cx="11" cy="11" r="8" />
+              <line x1="21" y1="21" x2="16.65" y2="16.65" />
+            </svg>
+            {viewArea.radius > config.map.maxAreaSearchRadius ? 'Zoom in to search this area' : 'Search this area'}
+          </button>
+        </div>
+      )}
+
       {/* Close route button */}
-      {routeToBar && onRouteClose && (
+      {(routeToBar || crawlStops?.length) && onRouteClose && (
         <div className="absolute top-4 right-4 z-[1000]">
           <button
             onClick={onRouteClose}
@@ -325,12 +818,14 @@ const MapView = ({ bars, selectedBar, onBarSelect, favorites, userLocation, onLo
       )}
       
       {/* Instruction overlay */}
-      {userLocation && !routeToBar && (
+      {userLocation && !routeToBar && !crawlStops?.length && (
         <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 z-[1000] pointer-events-none">
           <div className="bg-card/90 backdrop-blur-sm border border-primary/20 rounded-lg px-4 py-2 shadow-lg">
             <p className="text-sm text-muted-foreground flex items-center gap-2">
               <span className="w-3 h-3 bg-primary rounded-full animate-pulse"></span>
-              Drag the blue pin • 0.5km radius
+              {walkableArea
+                ? 'Drag the blue pin • walking distance'
+                : `Drag the blue pin${radiusEditable ? ' or the circle\'s edge' : ''} • ${formatRadius(draftRadius ?? radius)} radius`}
             </p>
           </div>
         </div>
@@ -338,7 +833,7 @@ const MapView = ({ bars, selectedBar, onBarSelect, favorites, userLocation, onLo
       
       <style>{`
         .leaflet-container {
-          background: hsl(220, 20%, 8%);
+          background: hsl(var(--background));
         }
         .custom-marker {
           background: transparent;
@@ -363,10 +858,69 @@ const MapView = ({ bars, selectedBar, onBarSelect, favorites, userLocation, onLo
           box-shadow: 0 0 0 8px rgba(56, 189, 248, 0.3), 0 4px 12px rgba(0,0,0,0.5) !important;
           animation: none !important;
         }
+        .radius-handle {
+          background: transparent;
+          border: none;
+          cursor: ew-resize;
+        }
+        .radius-handle-dot {
+          width: 16px;
+          height: 16px;
+          background: white;
+          border: 3px solid hsl(189, 94%, 58%);
+          border-radius: 50%;
+          box-shadow: 0 2px 6px rgba(0,0,0,0.3);
+          transition: transform 0.2s ease-in-out;
+        }
+        .radius-handle:hover .radius-handle-dot,
+        .radius-handle.leaflet-drag-target .radius-handle-dot {
+          transform: scale(1.25);
+        }
+        .crawl-stop-marker {
+          background: transparent;
+          border: none;
+        }
+        .crawl-stop-number {
+          width: 22px;
+          height: 22px;
+          border-radius: 50%;
+          background: hsl(var(--primary));
+          color: hsl(var(--primary-foreground));
+          font-size: 12px;
+          font-weight: 600;
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          box-shadow: 0 2px 6px rgba(0,0,0,0.4);
+        }
         .marker-pin {
           transition: transform 0.2s ease-in-out;
           transform-origin: center center;
         }
+        .custom-marker:hover .marker-pin {
+          transform: scale(1.2);
+        }
+        .bar-cluster-marker {
+          background: transparent;
+          border: none;
+        }
+        .bar-cluster {
+          border-radius: 50%;
+          background: hsl(var(--primary) / 0.85);
+          color: hsl(var(--primary-foreground));
+          border: 3px solid white;
+          font-weight: 600;
+          font-size: 13px;
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          cursor: pointer;
+          box-shadow: 0 2px 8px rgba(0,0,0,0.3);
+          transition: transform 0.2s ease-in-out;
+        }
+        .bar-cluster-marker:hover .bar-cluster {
+          transform: scale(1.1);
+        }
         @keyframes pulse {
           0% {
             box-shadow: 0 0 0 0 rgba(56, 189, 248, 0.7);
@@ -0,0 +1,67 @@
+import { format, parse } from 'date-fns';
+import { CalendarClock, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+
+interface OpenAtPickerProps {
+  value: string | null; // Wall-clock time at the venues, "2026-10-24T01:30"
+  onChange: (value: string | null) => void;
+}
+
+const DEFAULT_TIME = '22:00';
+
+/**
+ * Date and time picker for "which bars will be open then"
+ */
+const OpenAtPicker = ({ value, onChange }: OpenAtPickerProps) => {
+  const [date, time] = value ? value.split('T') : [undefined, undefined];
+  const selectedDate = date ? parse(date, 'yyyy-MM-dd', new Date()) : undefined;
+
+  const handleDateSelect = (next?: Date) => {
+    if (!next) return;
+    onChange(`${format(next, 'yyyy-MM-dd')}T${time ?? DEFAULT_TIME}`);
+  };
+
+  const handleTimeChange = (next: string) => {
+    if (!next) return;
+    onChange(`${date ?? format(new Date(), 'yyyy-MM-dd')}T${next}`);
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="flex-1 justify-start font-normal">
+            <CalendarClock className="h-4 w-4 mr-2 text-muted-foreground" />
+            {selectedDate ? format(selectedDate, 'EEE d MMM') : 'Pick a day'}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="single"
+            selected={selectedDate}
+            onSelect={handleDateSelect}
+            weekStartsOn={1}
+            initialFocus
+          />
+        </PopoverContent>
+      </Popover>
+      <Input
+        type="time"
+        value={time ?? ''}
+        onChange={(e) => handleTimeChange(e.target.value)}
+        className="w-28 h-9"
+        aria-label="Time"
+      />
+      {value && (
+        <Button variant="ghost" size="icon" className="h-9 w-9" onClick={() => onChange(null)} aria-label="Clear planned time">
+          <X className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default OpenAtPicker;
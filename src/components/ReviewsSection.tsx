@@ -0,0 +1,167 @@
+import { Star, ExternalLink, MessageSquare } from 'lucide-react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { ProviderId } from '@/data/bars';
+import { useBarReviews } from '@/hooks/use-bar-details';
+import { VenueReview, getProvider } from '@/services/providers';
+import { toProviderError } from '@/services/errors';
+import ErrorPanel from '@/components/ErrorPanel';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+
+interface ReviewsSectionProps {
+  barId?: string; // Id of the bar at the reviewing provider
+  provider?: ProviderId;
+  pageable?: boolean; // Offer "Load more" when the provider has more reviews
+  excerptLength?: number; // Cut review text after this many characters
+}
+
+/**
+ * Yelp sends "2026-09-01 21:00:00" in the business' local time
+ */
+function parseReviewDate(time: string): Date {
+  return new Date(time.replace(' ', 'T'));
+}
+
+function excerpt(text: string, length?: number): string {
+  if (!length || text.length <= length) return text;
+  return `${text.slice(0, length).trimEnd()}…`;
+}
+
+const RatingStars = ({ rating }: { rating: number }) => (
+  <div className="flex items-center gap-0.5" aria-label={`${rating} out of 5 stars`}>
+    {Array.from({ length: 5 }, (_, index) => (
+      <Star
+        key={index}
+        className={`h-3.5 w-3.5 ${index < Math.round(rating) ? 'fill-primary text-primary' : 'text-muted-foreground'}`}
+      />
+    ))}
+  </div>
+);
+
+/**
+ * Share of loaded reviews per star rating, 5 stars first
+ */
+const RatingHistogram = ({ reviews }: { reviews: VenueReview[] }) => {
+  const counts = [5, 4, 3, 2, 1].map((stars) => ({
+    stars,
+    count: reviews.filter((review) => Math.round(review.rating) === stars).length,
+  }));
+  const average = reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length;
+
+  return (
+    <div className="flex gap-4 items-center">
+      <div className="text-center">
+        <div className="text-3xl font-bold">{average.toFixed(1)}</div>
+        <RatingStars rating={average} />
+        <div className="text-xs text-muted-foreground mt-1">
+          {reviews.length} {reviews.length === 1 ? 'review' : 'reviews'}
+        </div>
+      </div>
+      <div className="flex-1 space-y-1">
+        {counts.map(({ stars, count }) => (
+          <div key={stars} className="flex items-center gap-2 text-xs">
+            <span className="w-3 text-muted-foreground">{stars}</span>
+            <Progress value={(count / reviews.length) * 100} className="h-2" />
+            <span className="w-4 text-right text-muted-foreground">{count}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Reviews of a bar from its provider: rating histogram, reviewer, rating,
+ * date, excerpt and a link to the full review
+ */
+const ReviewsSection = ({ barId, provider, pageable = true, excerptLength }: ReviewsSectionProps) => {
+  const reviews = useBarReviews(barId, provider);
+  const providerName = provider ? getProvider(provider)?.name : undefined;
+  const allReviews = reviews.data?.pages.flatMap((page) => page.reviews) ?? [];
+  const total = reviews.data?.pages[0]?.total;
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg sm:text-xl font-semibold flex items-center gap-2">
+        <MessageSquare className="h-5 w-5" />
+        Reviews
+        {total !== undefined && total > 0 && (
+          <span className="text-sm font-normal text-muted-foreground">({total} on {providerName})</span>
+        )}
+      </h3>
+
+      {!provider || !getProvider(provider)?.capabilities.reviews ? (
+        <p className="text-sm text-muted-foreground">
+          Reviews aren't available from {providerName ?? 'this source'}.
+        </p>
+      ) : (
+        <>
+          {reviews.isPending && (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <div className="h-4 w-4 border-2 border-primary/20 border-t-primary rounded-full animate-spin" />
+              Loading reviews...
+            </div>
+          )}
+
+          {reviews.isError && (
+            <ErrorPanel error={toProviderError(reviews.error, provider)} onRetry={() => reviews.refetch()} />
+          )}
+
+          {reviews.isSuccess && allReviews.length === 0 && (
+            <p className="text-sm text-muted-foreground">No reviews yet.</p>
+          )}
+
+          {allReviews.length > 0 && <RatingHistogram reviews={allReviews} />}
+
+          {allReviews.map((review) => {
+            const created = parseReviewDate(review.time_created);
+            return (
+              <Card key={review.id} className="p-4 space-y-2">
+                <div className="flex items-center gap-3">
+                  <Avatar className="h-8 w-8">
+                    {review.user.image_url && <AvatarImage src={review.user.image_url} alt={review.user.name} />}
+                    <AvatarFallback className="text-xs">{review.user.name.charAt(0)}</AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-sm truncate">{review.user.name}</div>
+                    <div className="flex items-center gap-2">
+                      <RatingStars rating={review.rating} />
+                      <span className="text-xs text-muted-foreground" title={format(created, 'd MMM yyyy, HH:mm')}>
+                        {formatDistanceToNow(created, { addSuffix: true })}
+                      </span>
+                    </div>
+                  </div>
+                </div>
+                <p className="text-sm text-muted-foreground leading-relaxed">{excerpt(review.text, excerptLength)}</p>
+                <a
+                  href={review.url}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="inline-flex items-center gap-1 text-xs text-primary hover:underline"
+                >
+                  Read on {providerName}
+                  <ExternalLink className="h-3 w-3" />
+                </a>
+              </Card>
+            );
+          })}
+
+          {pageable && reviews.hasNextPage && (
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => reviews.fetchNextPage()}
+              disabled={reviews.isFetchingNextPage}
+            >
+              {reviews.isFetchingNextPage ? 'Loading...' : 'Load more reviews'}
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ReviewsSection;
@@ -0,0 +1,25 @@
+import { Moon, Sun } from 'lucide-react';
+import { useTheme } from 'next-themes';
+import { Button } from '@/components/ui/button';
+
+/**
+ * Switches between the light and dark theme; the map follows unless a
+ * basemap was picked in its layer control
+ */
+const ThemeToggle = () => {
+  const { resolvedTheme, setTheme } = useTheme();
+  const isDark = resolvedTheme !== 'light';
+
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => setTheme(isDark ? 'light' : 'dark')}
+      aria-label={isDark ? 'Switch to light theme' : 'Switch to dark theme'}
+    >
+      {isDark ? <Sun className="h-4 w-4" /> : <Moon className="h-4 w-4" />}
+    </Button>
+  );
+};
+
+export default ThemeToggle;
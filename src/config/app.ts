@@ -3,8 +3,109 @@
  */
 
 export const config = {
-  // Set to true to use Foursquare API, false to use mock data
+  // Set to true to use a live venue provider, false to always use mock data
   useApi: true,
+
+  // Base URL of the API proxy that adds provider keys server-side
+  // (the Vite dev server in development, `npm run proxy` in production)
+  apiBaseUrl: import.meta.env.VITE_API_BASE_URL ?? '/api',
+
+  // Providers the proxy has keys for, e.g. "yelp,foursquare"
+  enabledProviders: (import.meta.env.VITE_ENABLED_PROVIDERS ?? 'yelp').split(',').map((id: string) => id.trim()),
+
+  // Provider used until the user picks one ('all' | 'yelp' | 'foursquare' | 'mock')
+  // 'all' merges results from every provider with an API key
+  defaultProvider: 'all',
+
+  // Search paging settings
+  search: {
+    pageSize: 50,    // Results requested per provider call
+    maxResults: 200, // Ceiling per provider when paging through results
+  },
+
+  // Tiled area search, used when the radius exceeds a provider's maximum
+  // or when an exhaustive search is requested
+  tiling: {
+    maxTiles: 30,        // Budget of sub-circle searches per provider
+    minTileRadius: 500,  // Truncated tiles are split until this radius (meters)
+  },
+
+  // Offline cache for bar searches (IndexedDB)
+  cache: {
+    staleTime: 5 * 60 * 1000,       // Cached results older than this are revalidated in the background
+    maxAge: 24 * 60 * 60 * 1000,    // Cached results older than this are discarded
+    coordinatePrecision: 3,         // Decimals kept in cache keys (~100m)
+  },
+
+  // Bar markers on the map
+  map: {
+    clusterMaxZoom: 17,     // From this zoom on every bar gets its own marker
+    clusterCellSize: 64,    // Bars closer than this many pixels are clustered
+    viewportPadding: 0.25,  // Also render markers this share of the view beyond its edges
+    maxAreaSearchRadius: 10000, // Larger views ask the user to zoom in before "Search this area"
+    minRadius: 100,         // Search radius around the pin, set with the slider or circle handle (meters)
+    maxRadius: 5000,
+    radiusStep: 100,
+    hexRadius: 36,          // Size of the hexagons of the density overlay (pixels)
+  },
+
+  // Offline tile packs: every tile of the visible area, saved to IndexedDB
+  tiles: {
+    // Tile server of your own, e.g. tileserver-gl with OpenMapTiles data. Offline
+    // packs are only saved from it; the public basemaps don't allow bulk downloads
+    url: import.meta.env.VITE_TILES_URL as string | undefined,
+    attribution: import.meta.env.VITE_TILES_ATTRIBUTION ?? '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors',
+    packMaxZoom: 17,        // Deepest zoom level saved
+    packZoomsOut: 2,        // Also save this many zoom levels above the current one
+    maxPackTiles: 3000,     // Larger areas ask the user to zoom in first
+    downloadConcurrency: 4,
+  },
+
+  // Open map services used for geocoding
+  services: {
+    nominatimUrl: 'https://nominatim.openstreetmap.org',
+  },
+
+  // Directions and travel times, from an OSRM or Valhalla server
+  routing: {
+    engine: (import.meta.env.VITE_ROUTING_ENGINE ?? 'osrm') as 'osrm' | 'valhalla',
+    // {profile} becomes foot, bike or car; a URL without it serves every travel mode.
+    // Defaults to the German OSRM servers, which run one server per profile.
+    url: import.meta.env.VITE_ROUTING_URL ?? 'https://routing.openstreetmap.de/routed-{profile}',
+    defaultMode: 'walk',
+    maxTableSize: 50, // Bars per travel time (table) request
+    // Walking-time search areas. OSRM has no isochrones, so they are traced
+    // from travel times to points along evenly spread bearings.
+    isochrone: {
+      minutes: [5, 10, 15, 20], // Walking times offered in the filters
+      metersPerMinute: 84, // Upper bound of walking speed; sizes the search circle
+      bearings: 24,
+      samplesPerBearing: 6,
+    },
+  },
+
+  // Shared HTTP client used by the venue services
+  http: {
+    maxRetries: 3,        // Retries after a 429, 5xx or network failure
+    baseBackoffMs: 500,   // First retry delay, doubled on every attempt
+    maxBackoffMs: 8000,
+    // Client-side request budgets (token buckets) per provider
+    rateBudgets: {
+      yelp: { capacity: 10, refillPerSecond: 5 },
+      foursquare: { capacity: 10, refillPerSecond: 5 },
+      nominatim: { capacity: 1, refillPerSecond: 1 }, // Nominatim allows 1 request per second
+      routing: { capacity: 2, refillPerSecond: 1 }, // Public routing servers ask for light use
+      tiles: { capacity: 8, refillPerSecond: 8 }, // Offline tile pack downloads
+    },
+    defaultRateBudget: { capacity: 5, refillPerSecond: 2 },
+    searchDebounceMs: 400, // Wait for the location/radius to settle before searching
+  },
+
+  // Venue matching thresholds used when merging results from several providers
+  merge: {
+    maxDistance: 100,     // Meters between two listings of the same venue
+    minNameSimilarity: 0.6, // 0-1 similarity of normalized names
+  },
   
   // Foursquare API settings
   foursquare: {
@@ -12,6 +113,18 @@ export const config = {
     limit: 50,    // Maximum number of results
   },
   
+  // Opening hours from the providers are wall-clock times at the venue
+  hours: {
+    // Venue zones come from their coordinates; this device's zone is the fallback
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    closingSoonMinutes: 60, // Show "closes in X min" from this point on
+  },
+  
+  // Bar crawl schedule
+  crawl: {
+    dwellMinutes: 45, // Default time spent at each stop
+  },
+  
   // Bergen, Norway coordinates
   bergenCenter: {
     latitude: 60.3913,
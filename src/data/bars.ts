@@ -1,5 +1,7 @@
 export type BarType = 'Cocktail' | 'Pub' | 'Sports' | 'Wine' | 'Craft-beer' | 'Nightclub';
 
+export type ProviderId = 'yelp' | 'foursquare' | 'mock';
+
 export interface BusinessHours {
   is_open_now: boolean;
   hours: Array<{
@@ -17,6 +19,7 @@ export interface Bar {
   coordinates: [number, number]; // [lng, lat]
   address: string;
   rating: number;
+  reviewCount?: number; // Reviews at the provider; undefined if it doesn't count them
   image: string;
   description: string;
   priceLevel: number; // 1-3
@@ -26,6 +29,13 @@ export interface Bar {
   categories?: string[]; // Array of category titles
   businessHours?: BusinessHours;
   isOpenNow?: boolean;
+  photos?: string[]; // Extra photo URLs, only loaded with full details
+  transactions?: string[]; // e.g. "delivery", "pickup", "restaurant_reservation"
+  providerUrl?: string; // The bar's page at the provider
+  source?: ProviderId; // Provider this listing (and its id) comes from
+  sources?: ProviderId[]; // Providers that returned this venue
+  sourceIds?: Partial<Record<ProviderId, string>>; // Venue id at each provider
+  provenance?: Partial<Record<keyof Bar, ProviderId>>; // Provider each merged field came from
 }
 
 export const bars: Bar[] = [
@@ -36,6 +46,7 @@ export const bars: Bar[] = [
     coordinates: [5.312649, 60.397462],
     address: 'C. Sundts gate 50',
     rating: 4.7,
+    reviewCount: 1843,
     image: 'https://dynamic-media-cdn.tripadvisor.com/media/photo-o/2b/90/33/6c/enjoy-a-drink-in-the.jpg?w=1000&h=-1&s=1',
     description: 'Modern cocktail bar with innovative drinks and stunning waterfront views.',
     priceLevel: 3,
@@ -47,6 +58,7 @@ export const bars: Bar[] = [
     coordinates: [5.323083, 60.389679],
     address: 'Vaskerelven 6',
     rating: 4.5,
+    reviewCount: 612,
     image: 'https://dynamic-media-cdn.tripadvisor.com/media/photo-o/09/1b/24/6a/photo0jpg.jpg?w=1000&h=-1&s=1',
     description: "A unique cultural hub that combines Norway's oldest independent record store with a popular bar.",
     priceLevel: 2,
@@ -58,6 +70,7 @@ export const bars: Bar[] = [
     coordinates: [5.326560, 60.394901],
     address: 'Hollendergaten 11',
     rating: 4.5,
+    reviewCount: 389,
     image: 'https://lh3.googleusercontent.com/p/AF1QipOzeLC9Z_2OHvrRi7VdYbj5VYf4_Vr3irqAM2jL=s680-w680-h510-rw',
     description: 'No Stress is a local cocktail pub with multiple locations, offering sweet cocktails, a cozy atmosphere, and events like music bingo and Mario Kart.',
     priceLevel: 2,
@@ -69,6 +82,7 @@ export const bars: Bar[] = [
     coordinates: [5.320839, 60.391217],
     address: 'Sigurds gate 8',
     rating: 4.6,
+    reviewCount: 274,
     image: 'https://encrypted-tbn0.gstatic.com/images?q=tbn:ANd9GcToEa88jvN3q5sD9FXn6Yj70MPCnBi3sFjztA&s',
     description: 'Craft beer haven with rotating taps and knowledgeable staff.',
     priceLevel: 2,
@@ -80,6 +94,7 @@ export const bars: Bar[] = [
     coordinates: [5.3265, 60.3954],
     address: 'Strandgaten 81',
     rating: 4.4,
+    reviewCount: 956,
     image: 'https://encrypted-tbn0.gstatic.com/images?q=tbn:ANd9GcQDEEhompIPIpUTA5d1IjtvSm_SUltjPa87Ug&s',
     description: 'Elegant wine bar in historic Bryggen area.',
     priceLevel: 3,
@@ -91,6 +106,7 @@ export const bars: Bar[] = [
     coordinates: [5.3247, 60.3963],
     address: 'Engen 10',
     rating: 4.5,
+    reviewCount: 143,
     image: 'https://encrypted-tbn0.gstatic.com/images?q=tbn:ANd9GcQYGb__8LmiV2gRQJV2DT08Tq0gCUAQG2OvEQ&s',
     description: 'Cozy bar with extensive beer and wine menu.',
     priceLevel: 2,
@@ -102,6 +118,7 @@ export const bars: Bar[] = [
     coordinates: [5.3241, 60.3951],
     address: 'Rasmus Meyers allé 9',
     rating: 4.7,
+    reviewCount: 508,
     image: 'https://images.unsplash.com/photo-1470337458703-46ad1756a187?w=800&h=600&fit=crop',
     description: 'Popular pub/night club with a good atmposphere and live DJ on the weekends.',
     priceLevel: 2,
@@ -113,6 +130,7 @@ export const bars: Bar[] = [
     coordinates: [5.3245, 60.3935],
     address: 'Vetrlidsallmenningen 21',
     rating: 4.6,
+    reviewCount: 221,
     image: 'https://images.unsplash.com/photo-1514362545857-3bc16c4c7d1b?w=800&h=600&fit=crop',
     description: 'Popular cocktailbar with classic and innovative drinks.',
     priceLevel: 3,
@@ -124,6 +142,7 @@ export const bars: Bar[] = [
     coordinates: [5.3238, 60.3931],
     address: 'Nygårdsgaten 2',
     rating: 4.4,
+    reviewCount: 87,
     image: 'https://images.unsplash.com/photo-1543007631-283050bb3e8c?w=800&h=600&fit=crop',
     description: 'Student bar with cheap drinks and good music. Quiz every sunday!',
     priceLevel: 1,
@@ -135,6 +154,7 @@ export const bars: Bar[] = [
     coordinates: [5.3295, 60.3932],
     address: 'Engen 18',
     rating: 4.0,
+    reviewCount: 330,
     image: 'https://images.unsplash.com/photo-1543007631-283050bb3e8c?w=800&h=600&fit=crop',
     description: 'Historic pub in the heart of Bergen.',
     priceLevel: 2,
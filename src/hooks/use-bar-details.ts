@@ -0,0 +1,45 @@
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { ProviderId } from '@/data/bars';
+import { fetchVenueDetails } from '@/services/details';
+import { ReviewPage, getProvider } from '@/services/providers';
+import { config } from '@/config/app';
+
+const REVIEWS_PAGE_SIZE = 20;
+
+/**
+ * Custom hook to load the full details of one bar, cached per id
+ */
+export function useBarDetails(barId: string | undefined, source?: ProviderId) {
+  return useQuery({
+    queryKey: ['bar-details', source ?? 'any', barId],
+    queryFn: ({ signal }) => fetchVenueDetails(barId!, source, signal),
+    enabled: !!barId,
+    staleTime: config.cache.staleTime,
+    gcTime: config.cache.maxAge,
+    retry: false,
+  });
+}
+
+/**
+ * Custom hook to page through a bar's reviews, cached per id
+ * Disabled for providers without reviews
+ */
+export function useBarReviews(barId: string | undefined, provider: ProviderId | undefined) {
+  const venueProvider = provider ? getProvider(provider) : undefined;
+
+  return useInfiniteQuery({
+    queryKey: ['bar-reviews', provider, barId],
+    queryFn: ({ pageParam, signal }) =>
+      venueProvider!.fetchBarReviews(barId!, { offset: pageParam, limit: REVIEWS_PAGE_SIZE, signal }),
+    initialPageParam: 0,
+    getNextPageParam: (lastPage: ReviewPage, pages: ReviewPage[]) => {
+      const loaded = pages.reduce((count, page) => count + page.reviews.length, 0);
+      // Providers may report more reviews than they let us read
+      return lastPage.reviews.length === REVIEWS_PAGE_SIZE && loaded < lastPage.total ? loaded : undefined;
+    },
+    enabled: !!barId && !!venueProvider?.capabilities.reviews,
+    staleTime: config.cache.staleTime,
+    gcTime: config.cache.maxAge,
+    retry: false,
+  });
+}
@@ -1,101 +1,210 @@
-import { useState, useEffect } from 'react';
-import { Bar, bars as mockBars } from '@/data/bars';
-import { fetchBarsFromYelp } from '@/services/yelp';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { InfiniteData, keepPreviousData, useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
+import { Bar } from '@/data/bars';
+import { ProviderSelection, getActiveProviderId } from '@/services/providers';
+import { ProviderResults, mergeVenues } from '@/services/merge';
+import {
+  SearchCursors,
+  SearchPage,
+  appendResults,
+  getReportedTotal,
+  hasMorePages,
+  searchVenuesPage,
+  summarizeCoverage,
+} from '@/services/search';
+import { AreaCoverage } from '@/services/tiling';
+import { findCachedSearch, getBarsQueryKey } from '@/services/bar-cache';
+import { ProviderError, toProviderError } from '@/services/errors';
+import { useOnlineStatus } from '@/hooks/use-online-status';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { barCoordinates, getDistanceInMeters } from '@/lib/geo';
 import { config } from '@/config/app';
 
 interface UseBarsResult {
   bars: Bar[];
   loading: boolean;
-  error: string | null;
+  refreshing: boolean; // Revalidating cached results in the background
+  error: ProviderError | null;
   refetch: () => Promise<void>;
+  canShowSavedResults: boolean; // Another provider has a saved search covering the location
+  showSavedResults: () => void;
   usingMockData: boolean;
+  usingCachedData: boolean; // Showing a saved search of a surrounding area
+  online: boolean;
   userLocation: { latitude: number; longitude: number } | null;
+  provider: ProviderSelection;
+  hasMore: boolean;
+  loadingMore: boolean;
+  loadMore: () => Promise<void>;
+  total?: number;
+  coverage?: AreaCoverage; // Set when the area was searched tile by tile
+  updatedAt?: number; // When the shown results were last synced
 }
 
 interface UseBarsOptions {
   coordinates: { latitude: number; longitude: number } | null;
   radius?: number;
+  origin?: { latitude: number; longitude: number } | null; // Distances are measured from here; defaults to the search center
+  provider?: ProviderSelection;
+  autoPaginate?: boolean; // Keep loading pages until the ceiling is reached
+  exhaustive?: boolean; // Tile the area so no bars are cut off by provider caps
 }
 
 /**
- * Custom hook to fetch and manage bars data from Yelp API
- * Falls back to mock data if API is disabled or fails
+ * Custom hook to fetch and manage bars data from the selected venue provider(s)
+ * Results from several providers are merged into one list
+ * Further pages are loaded on demand via loadMore, or automatically with autoPaginate
+ * Radii above a provider's maximum are searched as overlapping tiles
+ * Searches are cached (and persisted to IndexedDB), served instantly and revalidated when stale
+ * When offline or failing, shows a saved search covering the location instead
+ * Failures are reported as a ProviderError, including searches that found nothing
+ * Mock data is only used when selected explicitly or the API is disabled
+ * Location and radius changes are debounced; superseded searches are cancelled
+ * The previous results stay shown while a new location or radius is searched
+ * Distances can be measured from an origin other than the search center
  * Uses provided coordinates to find nearby bars
  */
-export function useBars({ coordinates, radius = 10000 }: UseBarsOptions): UseBarsResult {
-  const [bars, setBars] = useState<Bar[]>([]);
-  const [loading, setLoading] = useState<boolean>(config.useApi);
-  const [error, setError] = useState<string | null>(null);
-  const [usingMockData, setUsingMockData] = useState<boolean>(!config.useApi);
+export function useBars({
+  coordinates: requestedCoordinates,
+  radius: requestedRadius = 10000,
+  origin,
+  provider,
+  autoPaginate = false,
+  exhaustive = false,
+}: UseBarsOptions): UseBarsResult {
+  const providerId = config.useApi ? provider ?? getActiveProviderId() : 'mock';
+  const online = useOnlineStatus();
 
+  // Dragging the location pin or radius fires many changes; only search once they settle
+  // (the first location is searched right away)
+  const debouncedCoordinates = useDebouncedValue(requestedCoordinates, config.http.searchDebounceMs);
+  const coordinates = requestedCoordinates && (debouncedCoordinates ?? requestedCoordinates);
+  const radius = useDebouncedValue(requestedRadius, config.http.searchDebounceMs);
+  const queryClient = useQueryClient();
+
+  const query = useInfiniteQuery({
+    queryKey: getBarsQueryKey(providerId, coordinates, radius, exhaustive),
+    // React Query aborts the signal once nothing observes this search any more
+    queryFn: ({ pageParam, signal }) => {
+      console.log(`🔍 Fetching bars from ${providerId} with radius: ${radius}m (${(radius / 1000).toFixed(1)}km)`);
+      return searchVenuesPage(providerId, { coordinates: coordinates!, radius, exhaustive, signal }, pageParam);
+    },
+    initialPageParam: {} as SearchCursors,
+    getNextPageParam: (lastPage: SearchPage) => (hasMorePages(lastPage.cursors) ? lastPage.cursors : undefined),
+    enabled: !!coordinates, // Wait for coordinates before fetching bars
+    staleTime: config.cache.staleTime,
+    gcTime: config.cache.maxAge,
+    retry: false,
+    networkMode: providerId === 'mock' ? 'always' : 'online', // Demo data needs no network
+    // The last results stay up (and the map mounted) while a new area or radius loads
+    placeholderData: keepPreviousData,
+  });
+
+  const { data, fetchNextPage, isFetchingNextPage, isFetching, isPending, isPlaceholderData, refetch } = query;
+  // Results of this exact search; the previous search's stand in until they arrive
+  const fresh = isPlaceholderData ? undefined : data;
+  const hasNextPage = !!fresh && !!query.hasNextPage;
+
+  // After a failure the user can opt into saved results from any provider
+  const [anyProviderCache, setAnyProviderCache] = useState(false);
   useEffect(() => {
-    const fetchBars = async () => {
-      // If API is disabled, use mock data immediately
-      if (!config.useApi) {
-        setBars(mockBars);
-        setUsingMockData(true);
-        setLoading(false);
-        return;
-      }
-
-      // Wait for coordinates before fetching bars
-      if (!coordinates) {
-        return;
-      }
-
-      try {
-        setLoading(true);
-        setError(null);
-        console.log(`🔍 Fetching bars with radius: ${radius}m (${(radius / 1000).toFixed(1)}km)`);
-        const data = await fetchBarsFromYelp(coordinates, radius);
-        console.log(`✅ Found ${data.length} bars within ${(radius / 1000).toFixed(1)}km`);
-        setBars(data);
-        setUsingMockData(false);
-      } catch (err) {
-        const errorMessage = err instanceof Error ? err.message : 'Failed to fetch bars';
-        setError(errorMessage);
-        console.error('Error fetching bars:', err);
-        
-        // Fallback to mock data on error
-        console.log('Falling back to mock data...');
-        setBars(mockBars);
-        setUsingMockData(true);
-      } finally {
-        setLoading(false);
-      }
-    };
-
-    // Only fetch when we have coordinates
-    if (coordinates) {
-      fetchBars();
+    setAnyProviderCache(false);
+  }, [providerId, coordinates]);
+
+  // Without results for this exact search, look for a saved search of the surrounding area
+  const needsCache = !fresh && !!coordinates && (!online || query.isError);
+  const cached = useMemo(() => {
+    if (!needsCache) return null;
+    return (
+      findCachedSearch<InfiniteData<SearchPage>>(queryClient, providerId, coordinates!) ??
+      (anyProviderCache ? findCachedSearch<InfiniteData<SearchPage>>(queryClient, null, coordinates!) : null)
+    );
+  }, [needsCache, queryClient, providerId, coordinates, anyProviderCache]);
+
+  const canShowSavedResults = useMemo(
+    () => needsCache && !cached && !!findCachedSearch(queryClient, null, coordinates!),
+    [needsCache, cached, queryClient, coordinates]
+  );
+
+  const pages = cached?.data.pages ?? data?.pages;
+
+  const results = useMemo<ProviderResults[]>(
+    () => (pages ? pages.reduce((all, page) => appendResults(all, page.results), [] as ProviderResults[]) : []),
+    [pages]
+  );
+
+  const bars = useMemo(() => {
+    let merged = mergeVenues(results);
+
+    // A saved search was centered elsewhere: re-measure and keep bars in range
+    if (cached && coordinates) {
+      merged = merged
+        .map((bar) => ({ ...bar, distance: getDistanceInMeters(coordinates, barCoordinates(bar.coordinates)) }))
+        .filter((bar) => bar.distance <= radius);
     }
-  }, [coordinates, radius]); // Now radius changes will trigger re-fetch
-
-  const refetch = async () => {
-    if (!coordinates) return;
-    
-    try {
-      setLoading(true);
-      setError(null);
-      const data = await fetchBarsFromYelp(coordinates, radius);
-      setBars(data);
-      setUsingMockData(false);
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to fetch bars';
-      setError(errorMessage);
-      setBars(mockBars);
-      setUsingMockData(true);
-    } finally {
-      setLoading(false);
+
+    // Searching an area away from the user's pin: distances are still from the pin
+    if (origin) {
+      merged = merged.map((bar) => ({ ...bar, distance: getDistanceInMeters(origin, barCoordinates(bar.coordinates)) }));
     }
-  };
+
+    return merged;
+  }, [results, cached, coordinates, radius, origin]);
+
+  const failed = query.isError && !cached;
+
+  const error = useMemo(() => {
+    if (failed) {
+      return toProviderError(query.error, providerId === 'all' ? undefined : providerId);
+    }
+    if (fresh && !hasNextPage && bars.length === 0) {
+      return new ProviderError('no_results', 'No bars found in the search area', providerId === 'all' ? undefined : providerId);
+    }
+    return null;
+  }, [failed, query.error, providerId, fresh, hasNextPage, bars.length]);
+
+  useEffect(() => {
+    if (query.isError) {
+      console.error('Error fetching bars:', query.error);
+    }
+  }, [query.isError, query.error]);
+
+  useEffect(() => {
+    if (autoPaginate && hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [autoPaginate, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const loadMore = useCallback(async () => {
+    if (hasNextPage && !isFetchingNextPage) {
+      await fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const refetchBars = useCallback(async () => {
+    await refetch();
+  }, [refetch]);
+
+  const lastCursors = data?.pages[data.pages.length - 1]?.cursors ?? {};
 
   return {
     bars,
-    loading,
+    loading: !!coordinates && isPending && isFetching,
+    refreshing: !!data && isFetching && !isFetchingNextPage,
     error,
-    refetch,
-    usingMockData,
-    userLocation: coordinates,
+    refetch: refetchBars,
+    canShowSavedResults,
+    showSavedResults: () => setAnyProviderCache(true),
+    usingMockData: providerId === 'mock',
+    usingCachedData: !!cached,
+    online,
+    userLocation: origin ?? requestedCoordinates,
+    provider: providerId,
+    hasMore: hasNextPage,
+    loadingMore: isFetchingNextPage,
+    loadMore,
+    total: getReportedTotal(lastCursors),
+    coverage: pages ? summarizeCoverage(pages[0].coverage) : undefined,
+    updatedAt: fresh ? query.dataUpdatedAt : cached?.updatedAt,
   };
 }
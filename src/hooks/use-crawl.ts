@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Bar } from '@/data/bars';
+import { Coordinates } from '@/hooks/use-geolocation';
+import { barCoordinates } from '@/lib/geo';
+import { insertStop, optimizeOrder } from '@/lib/crawl';
+import { fetchRoute } from '@/services/routing';
+import { config } from '@/config/app';
+
+const CRAWL_KEY = 'bar-crawl';
+const CRAWL_SCHEDULE_KEY = 'bar-crawl-schedule';
+
+interface CrawlSchedule {
+  startAt: string | null; // Wall-clock start at the venues, e.g. "2026-10-24T20:00"; null starts now
+  dwellMinutes: Record<string, number>; // Per bar id, when not the default
+}
+
+/**
+ * Custom hook for the bar crawl being planned
+ * Stops are stored in localStorage so a planned crawl survives reloads
+ * @param start - Where the crawl starts, used to place new stops
+ */
+export function useCrawl(start: Coordinates | null) {
+  const [stops, setStops] = useState<Bar[]>(() => {
+    const stored = localStorage.getItem(CRAWL_KEY);
+    return stored ? JSON.parse(stored) : [];
+  });
+
+  const [schedule, setSchedule] = useState<CrawlSchedule>(() => {
+    const stored = localStorage.getItem(CRAWL_SCHEDULE_KEY);
+    return stored ? JSON.parse(stored) : { startAt: null, dwellMinutes: {} };
+  });
+
+  useEffect(() => {
+    localStorage.setItem(CRAWL_KEY, JSON.stringify(stops));
+  }, [stops]);
+
+  useEffect(() => {
+    localStorage.setItem(CRAWL_SCHEDULE_KEY, JSON.stringify(schedule));
+  }, [schedule]);
+
+  const stopIds = useMemo(() => new Set(stops.map((stop) => stop.id)), [stops]);
+
+  // New stops go where they add the least walking
+  const toggleStop = useCallback(
+    (bar: Bar) => {
+      setStops((prev) => {
+        if (prev.some((stop) => stop.id === bar.id)) return prev.filter((stop) => stop.id !== bar.id);
+        return start ? insertStop(start, prev, bar) : [...prev, bar];
+      });
+    },
+    [start]
+  );
+
+  const moveStop = useCallback((from: number, to: number) => {
+    setStops((prev) => {
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  }, []);
+
+  const optimize = useCallback(() => {
+    if (start) setStops((prev) => optimizeOrder(start, prev));
+  }, [start]);
+
+  const clear = useCallback(() => {
+    setStops([]);
+    setSchedule({ startAt: null, dwellMinutes: {} });
+  }, []);
+
+  const setStartAt = useCallback((startAt: string | null) => {
+    setSchedule((prev) => ({ ...prev, startAt }));
+  }, []);
+
+  const setDwellMinutes = useCallback((barId: string, minutes: number) => {
+    setSchedule((prev) => ({ ...prev, dwellMinutes: { ...prev.dwellMinutes, [barId]: minutes } }));
+  }, []);
+
+  const getDwellMinutes = useCallback(
+    (bar: Bar) => schedule.dwellMinutes[bar.id] ?? config.crawl.dwellMinutes,
+    [schedule.dwellMinutes]
+  );
+
+  return {
+    stops,
+    stopIds,
+    toggleStop,
+    moveStop,
+    optimize,
+    clear,
+    startAt: schedule.startAt,
+    setStartAt,
+    getDwellMinutes,
+    setDwellMinutes,
+  };
+}
+
+/**
+ * Custom hook to load walking times for every leg of a crawl
+ * @param enabled - Only ask the routing server while the crawl is on screen
+ */
+export function useCrawlRoute(start: Coordinates | null, stops: Bar[], enabled = true) {
+  const points = start ? [start, ...stops.map((stop) => barCoordinates(stop.coordinates))] : [];
+
+  return useQuery({
+    queryKey: ['crawl-route', points.map((point) => `${point.latitude.toFixed(5)},${point.longitude.toFixed(5)}`)],
+    // Crawls are walked, whatever the travel mode for directions
+    queryFn: ({ signal }) => fetchRoute(points, 'walk', { signal }),
+    enabled: enabled && points.length >= 2,
+    staleTime: Infinity,
+    retry: false,
+  });
+}
@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Custom hook to debounce a rapidly changing value
+ * Returns the latest value once it has stopped changing for the given delay
+ */
+export function useDebouncedValue<T>(value: T, delay: number): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
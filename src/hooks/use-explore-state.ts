@@ -0,0 +1,187 @@
+import { useCallback, useMemo, useRef } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { Bar, BarType, barTypes } from '@/data/bars';
+import { venueTimeToDate } from '@/lib/hours';
+import { config } from '@/config/app';
+import type { SortOption } from '@/components/FilterDialog';
+
+export type ExploreView = 'map' | 'list';
+
+export interface ExploreLocation {
+  coordinates: { latitude: number; longitude: number };
+  name?: string;
+}
+
+/**
+ * Part of the map searched with "Search this area", away from the location pin
+ */
+export interface SearchArea {
+  center: { latitude: number; longitude: number };
+  radius: number; // meters
+}
+
+/**
+ * Everything needed to reproduce what the user is looking at
+ */
+export interface ExploreState {
+  location: ExploreLocation | null;
+  area: SearchArea | null; // Searched instead of the circle around the location
+  radius: number;
+  walkMinutes: number | null; // Search by walking time instead of the radius
+  type: BarType | null;
+  sortBy: SortOption;
+  minRating: number;
+  openOnly: boolean; // Open right now
+  openAt: string | null; // Planned wall-clock time at the venues, e.g. "2026-10-24T01:30"
+  favoritesOnly: boolean;
+  view: ExploreView;
+  barId: string | null; // Bar open in the detail sheet
+}
+
+interface UpdateOptions {
+  replace?: boolean; // Overwrite the current history entry instead of adding one
+}
+
+export const DEFAULT_RADIUS = 500; // meters
+
+const SORT_OPTIONS: SortOption[] = ['rating', 'distance', 'price-low', 'price-high', 'reviews', 'default'];
+
+function parseNumber(value: string | null): number | undefined {
+  if (value === null || value.trim() === '') return undefined;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function parseLocation(lat: string | null, lng: string | null, name: string | null): ExploreLocation | null {
+  const latitude = parseNumber(lat);
+  const longitude = parseNumber(lng);
+  if (latitude === undefined || longitude === undefined || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+    return null;
+  }
+  return { coordinates: { latitude, longitude }, name: name ?? undefined };
+}
+
+/**
+ * Reads a search area written as "lat,lng,radius", capping the radius at the
+ * largest area the map offers to search
+ */
+function parseArea(value: string | null): SearchArea | null {
+  if (!value) return null;
+  const [lat, lng, radius] = value.split(',');
+  const location = parseLocation(lat, lng, null);
+  const meters = parseNumber(radius);
+  return location && meters && meters > 0
+    ? { center: location.coordinates, radius: Math.min(meters, config.map.maxAreaSearchRadius) }
+    : null;
+}
+
+/**
+ * Reads the explore state from the URL, ignoring invalid values
+ */
+export function parseExploreState(params: URLSearchParams): ExploreState {
+  const type = params.get('type');
+  const sort = params.get('sort');
+  const openAt = params.get('at');
+  const walkMinutes = parseNumber(params.get('walk'));
+
+  return {
+    location: parseLocation(params.get('lat'), params.get('lng'), params.get('name')),
+    area: parseArea(params.get('area')),
+    radius: Math.min(Math.max(parseNumber(params.get('r')) ?? DEFAULT_RADIUS, config.map.minRadius), config.map.maxRadius),
+    walkMinutes: config.routing.isochrone.minutes.some((minutes) => minutes === walkMinutes) ? walkMinutes : null,
+    type: barTypes.some((candidate) => candidate.value === type) ? (type as BarType) : null,
+    sortBy: SORT_OPTIONS.includes(sort as SortOption) ? (sort as SortOption) : 'default',
+    minRating: parseNumber(params.get('rating')) ?? 0,
+    openOnly: params.get('open') === '1',
+    openAt: openAt && venueTimeToDate(openAt) ? openAt : null,
+    favoritesOnly: params.get('fav') === '1',
+    view: params.get('view') === 'map' ? 'map' : 'list',
+    barId: params.get('bar'),
+  };
+}
+
+/**
+ * Writes the explore state as query params, leaving out defaults
+ */
+export function serializeExploreState(state: ExploreState): URLSearchParams {
+  const params = new URLSearchParams();
+  if (state.location) {
+    params.set('lat', state.location.coordinates.latitude.toFixed(5));
+    params.set('lng', state.location.coordinates.longitude.toFixed(5));
+    if (state.location.name) params.set('name', state.location.name);
+  }
+  if (state.area) {
+    const { center, radius } = state.area;
+    params.set('area', `${center.latitude.toFixed(5)},${center.longitude.toFixed(5)},${Math.round(radius)}`);
+  }
+  if (state.radius !== DEFAULT_RADIUS) params.set('r', Math.round(state.radius).toString());
+  if (state.walkMinutes) params.set('walk', state.walkMinutes.toString());
+  if (state.type) params.set('type', state.type);
+  if (state.sortBy !== 'default') params.set('sort', state.sortBy);
+  if (state.minRating > 0) params.set('rating', state.minRating.toString());
+  if (state.openOnly) params.set('open', '1');
+  if (state.openAt) params.set('at', state.openAt);
+  if (state.favoritesOnly) params.set('fav', '1');
+  if (state.view !== 'list') params.set('view', state.view);
+  if (state.barId) params.set('bar', state.barId);
+  return params;
+}
+
+/**
+ * Builds the path (with query) for an explore state
+ */
+export function exploreStatePath(state: ExploreState): string {
+  const query = serializeExploreState(state).toString();
+  return query ? `/?${query}` : '/';
+}
+
+/**
+ * Builds the link to a bar's own page. The provider the id belongs to is
+ * added as `src`, and the search is kept so the page can link back to it.
+ */
+export function barPagePath(bar: Bar, state?: ExploreState): string {
+  const params = state ? serializeExploreState({ ...state, barId: null }) : new URLSearchParams();
+  const source = bar.source ?? bar.sources?.[0];
+  if (source) params.set('src', source);
+  const query = params.toString();
+  return `/bars/${encodeURIComponent(bar.id)}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Custom hook keeping the explore page state in the URL
+ * Location, filters, view and the selected bar survive a refresh, can be
+ * shared as a link and are restored by back/forward navigation
+ */
+export function useExploreState() {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+
+  // The location and area keep their identity while only filters change, so
+  // the map and the bar search don't see a "new" location
+  const lat = searchParams.get('lat');
+  const lng = searchParams.get('lng');
+  const name = searchParams.get('name');
+  const location = useMemo(() => parseLocation(lat, lng, name), [lat, lng, name]);
+  const areaParam = searchParams.get('area');
+  const area = useMemo(() => parseArea(areaParam), [areaParam]);
+
+  const state = useMemo(
+    () => ({ ...parseExploreState(searchParams), location, area }),
+    [searchParams, location, area]
+  );
+
+  // Async callers (e.g. after reverse geocoding) must patch the latest state
+  const stateRef = useRef(state);
+  stateRef.current = state;
+
+  const update = useCallback(
+    (patch: Partial<ExploreState>, { replace = false }: UpdateOptions = {}) => {
+      const next = { ...stateRef.current, ...patch };
+      stateRef.current = next;
+      navigate(exploreStatePath(next), { replace });
+    },
+    [navigate]
+  );
+
+  return [state, update] as const;
+}
@@ -0,0 +1,33 @@
+import { useCallback, useEffect, useState } from 'react';
+
+const FAVORITES_KEY = 'bar-favorites';
+
+/**
+ * Custom hook for the user's favorite bars
+ * Favorites are stored in localStorage so they survive reloads
+ */
+export function useFavorites() {
+  const [favorites, setFavorites] = useState<Set<string>>(() => {
+    const stored = localStorage.getItem(FAVORITES_KEY);
+    return new Set(stored ? JSON.parse(stored) : []);
+  });
+
+  // Save favorites to localStorage
+  useEffect(() => {
+    localStorage.setItem(FAVORITES_KEY, JSON.stringify(Array.from(favorites)));
+  }, [favorites]);
+
+  const toggleFavorite = useCallback((barId: string) => {
+    setFavorites((prev) => {
+      const next = new Set(prev);
+      if (next.has(barId)) {
+        next.delete(barId);
+      } else {
+        next.add(barId);
+      }
+      return next;
+    });
+  }, []);
+
+  return { favorites, toggleFavorite };
+}
@@ -0,0 +1,18 @@
+import { useQuery } from '@tanstack/react-query';
+import { Coordinates } from '@/hooks/use-geolocation';
+import { fetchWalkingIsochrone } from '@/services/routing';
+import { config } from '@/config/app';
+
+/**
+ * Custom hook to load the area reachable on foot within some minutes
+ * Disabled while no walking time is set
+ */
+export function useIsochrone(center: Coordinates | null, minutes: number | null) {
+  return useQuery({
+    queryKey: ['isochrone', center?.latitude.toFixed(5), center?.longitude.toFixed(5), minutes],
+    queryFn: ({ signal }) => fetchWalkingIsochrone(center!, minutes!, signal),
+    enabled: !!center && !!minutes,
+    staleTime: config.cache.maxAge,
+    retry: false,
+  });
+}
@@ -0,0 +1,27 @@
+import { useState, useEffect } from 'react';
+
+/**
+ * Custom hook returning the current time, updated at the start of every minute
+ * Lets opening-hours badges stay current without refetching the bars
+ */
+export function useNow(): Date {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    let interval: ReturnType<typeof setInterval> | undefined;
+    const tick = () => setNow(new Date());
+
+    // Line up with the clock so "closes in 5 min" flips with the minute
+    const timeout = setTimeout(() => {
+      tick();
+      interval = setInterval(tick, 60 * 1000);
+    }, 60 * 1000 - (Date.now() % (60 * 1000)));
+
+    return () => {
+      clearTimeout(timeout);
+      if (interval) clearInterval(interval);
+    };
+  }, []);
+
+  return now;
+}
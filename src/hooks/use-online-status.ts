@@ -0,0 +1,24 @@
+import { useState, useEffect } from 'react';
+
+/**
+ * Custom hook to track the browser's network connectivity
+ * Updates when the device goes online or offline
+ */
+export function useOnlineStatus(): boolean {
+  const [online, setOnline] = useState<boolean>(navigator.onLine);
+
+  useEffect(() => {
+    const handleOnline = () => setOnline(true);
+    const handleOffline = () => setOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  return online;
+}
@@ -0,0 +1,82 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Basemap, TileBounds, deleteTilePack, downloadTilePack, listTilePacks } from '@/services/tiles';
+import { isAbortError } from '@/services/http';
+
+interface DownloadProgress {
+  done: number;
+  total: number;
+}
+
+const PACKS_QUERY_KEY = ['tile-packs'];
+
+/**
+ * Custom hook for the offline tile packs
+ * Lists saved packs and downloads or deletes them; one download runs at a
+ * time and is cancelled when the component unmounts. Failures of either are
+ * returned as error
+ */
+export function useTilePacks() {
+  const queryClient = useQueryClient();
+  const packs = useQuery({
+    queryKey: PACKS_QUERY_KEY,
+    queryFn: listTilePacks,
+    staleTime: Infinity,
+    retry: false,
+  });
+
+  const [progress, setProgress] = useState<DownloadProgress | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const download = useCallback(
+    async (basemap: Basemap, bounds: TileBounds, minZoom: number, maxZoom: number) => {
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      setError(null);
+      setProgress({ done: 0, total: 0 });
+
+      try {
+        await downloadTilePack(basemap, bounds, minZoom, maxZoom, {
+          signal: controller.signal,
+          onProgress: (done, total) => setProgress({ done, total }),
+        });
+      } catch (downloadError) {
+        if (!isAbortError(downloadError)) {
+          setError(downloadError instanceof Error ? downloadError : new Error(String(downloadError)));
+        }
+      } finally {
+        if (controllerRef.current === controller) {
+          controllerRef.current = null;
+          setProgress(null);
+        }
+        // The pack list only changes on success; a failed download removes its tiles
+        queryClient.invalidateQueries({ queryKey: PACKS_QUERY_KEY });
+      }
+    },
+    [queryClient]
+  );
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  const remove = useCallback(
+    async (id: string) => {
+      setError(null);
+      try {
+        await deleteTilePack(id);
+      } catch (removeError) {
+        setError(removeError instanceof Error ? removeError : new Error(String(removeError)));
+      } finally {
+        queryClient.invalidateQueries({ queryKey: PACKS_QUERY_KEY });
+      }
+    },
+    [queryClient]
+  );
+
+  return { packs: packs.data ?? [], progress, error, download, cancel, remove };
+}
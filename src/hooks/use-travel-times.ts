@@ -0,0 +1,63 @@
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { Bar } from '@/data/bars';
+import { Coordinates } from '@/hooks/use-geolocation';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { barCoordinates } from '@/lib/geo';
+import { RouteLeg, TravelMode, fetchTravelTimes } from '@/services/routing';
+import { config } from '@/config/app';
+
+/**
+ * Custom hook to load the travel time and distance from a point to each bar
+ * Returns a map from bar id to the route summary; unreachable bars are left out
+ * Each bar's time is cached by origin, so changing filters or sorting only
+ * asks for bars that weren't measured yet, once the list has settled
+ */
+export function useTravelTimes(origin: Coordinates | null, bars: Bar[], mode: TravelMode, enabled = true) {
+  const queryClient = useQueryClient();
+  const latitude = origin?.latitude.toFixed(5);
+  const longitude = origin?.longitude.toFixed(5);
+
+  // Sorting the ids keeps the cache when only the order of the bars changes
+  const ids = bars
+    .map((bar) => bar.id)
+    .sort()
+    .join(',');
+  const debouncedIds = useDebouncedValue(ids, config.http.searchDebounceMs);
+
+  return useQuery({
+    queryKey: ['travel-times', mode, latitude, longitude, debouncedIds],
+    queryFn: async ({ signal }) => {
+      const wanted = new Set(debouncedIds.split(','));
+      const byId: Record<string, RouteLeg> = {};
+      const missing: Bar[] = [];
+
+      bars
+        .filter((bar) => wanted.has(bar.id))
+        .forEach((bar) => {
+          // null marks a bar the router couldn't reach
+          const leg = queryClient.getQueryData<RouteLeg | null>(['travel-time', mode, latitude, longitude, bar.id]);
+          if (leg === undefined) missing.push(bar);
+          else if (leg) byId[bar.id] = leg;
+        });
+
+      if (missing.length > 0) {
+        const summaries = await fetchTravelTimes(
+          origin!,
+          missing.map((bar) => barCoordinates(bar.coordinates)),
+          mode,
+          signal
+        );
+        missing.forEach((bar, index) => {
+          const leg = summaries[index] ?? null;
+          queryClient.setQueryData(['travel-time', mode, latitude, longitude, bar.id], leg);
+          if (leg) byId[bar.id] = leg;
+        });
+      }
+
+      return byId;
+    },
+    enabled: enabled && !!origin && debouncedIds !== '',
+    staleTime: config.cache.staleTime,
+    retry: false,
+  });
+}
@@ -0,0 +1,40 @@
+/**
+ * Grid clustering of map markers in screen space: items whose pixel positions
+ * fall in the same grid cell are shown as one cluster.
+ */
+
+export interface ScreenPoint {
+  x: number;
+  y: number;
+}
+
+export interface Cluster<T> {
+  items: T[];
+  center: ScreenPoint; // Mean position of the items, in pixels
+}
+
+/**
+ * Groups items by grid cell of cellSize pixels. Single items come back as
+ * clusters of one.
+ */
+export function clusterPoints<T>(items: T[], getPoint: (item: T) => ScreenPoint, cellSize: number): Cluster<T>[] {
+  const cells = new Map<string, { items: T[]; x: number; y: number }>();
+
+  for (const item of items) {
+    const point = getPoint(item);
+    const key = `${Math.floor(point.x / cellSize)}:${Math.floor(point.y / cellSize)}`;
+    const cell = cells.get(key);
+    if (cell) {
+      cell.items.push(item);
+      cell.x += point.x;
+      cell.y += point.y;
+    } else {
+      cells.set(key, { items: [item], x: point.x, y: point.y });
+    }
+  }
+
+  return Array.from(cells.values()).map((cell) => ({
+    items: cell.items,
+    center: { x: cell.x / cell.items.length, y: cell.y / cell.items.length },
+  }));
+}
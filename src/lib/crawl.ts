@@ -0,0 +1,132 @@
+import { Coordinates } from '@/hooks/use-geolocation';
+import { Bar } from '@/data/bars';
+import { barCoordinates, getDistanceInMeters } from '@/lib/geo';
+import { OpeningStatus, getBarOpeningStatus } from '@/lib/hours';
+
+/**
+ * Ordering of bar crawl stops. Distances are straight lines, which is close
+ * enough to walking distance for choosing a sequence within a city centre.
+ */
+
+function distance(from: Coordinates, to: Bar): number {
+  return getDistanceInMeters(from, barCoordinates(to.coordinates));
+}
+
+/**
+ * Length of the walk from the start through the stops in order
+ */
+export function getPathLength(start: Coordinates, stops: Bar[]): number {
+  let total = 0;
+  let from = start;
+  for (const stop of stops) {
+    total += distance(from, stop);
+    from = barCoordinates(stop.coordinates);
+  }
+  return total;
+}
+
+/**
+ * Always walks on to the closest bar not visited yet
+ */
+export function orderByNearestNeighbour(start: Coordinates, stops: Bar[]): Bar[] {
+  const remaining = [...stops];
+  const ordered: Bar[] = [];
+  let from = start;
+
+  while (remaining.length > 0) {
+    let closest = 0;
+    for (let index = 1; index < remaining.length; index++) {
+      if (distance(from, remaining[index]) < distance(from, remaining[closest])) closest = index;
+    }
+    const [next] = remaining.splice(closest, 1);
+    ordered.push(next);
+    from = barCoordinates(next.coordinates);
+  }
+
+  return ordered;
+}
+
+/**
+ * Nearest-neighbour order improved with 2-opt: reverses stretches of the walk
+ * while that makes it shorter. The start is fixed, the crawl may end anywhere.
+ */
+export function optimizeOrder(start: Coordinates, stops: Bar[]): Bar[] {
+  let best = orderByNearestNeighbour(start, stops);
+  let bestLength = getPathLength(start, best);
+  let improved = true;
+
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let j = i + 1; j < best.length; j++) {
+        const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+        const length = getPathLength(start, candidate);
+        if (length < bestLength - 1) {
+          best = candidate;
+          bestLength = length;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Adds a stop where it lengthens the walk the least, keeping the existing order
+ */
+export function insertStop(start: Coordinates, stops: Bar[], bar: Bar): Bar[] {
+  let best: Bar[] = [...stops, bar];
+  let bestLength = getPathLength(start, best);
+
+  for (let index = 0; index < stops.length; index++) {
+    const candidate = [...stops.slice(0, index), bar, ...stops.slice(index)];
+    const length = getPathLength(start, candidate);
+    if (length < bestLength) {
+      best = candidate;
+      bestLength = length;
+    }
+  }
+
+  return best;
+}
+
+export type ScheduleWarning = 'closed' | 'closes_early' | 'unknown';
+
+export interface ScheduledStop {
+  bar: Bar;
+  arriveAt: Date;
+  leaveAt: Date;
+  status: OpeningStatus; // On arrival
+  warning?: ScheduleWarning; // Closed on arrival, closing before the planned leave or no hours
+}
+
+/**
+ * Arrival and leave times for every stop, walking each leg and staying the
+ * dwell time at every bar, checked against the bars' opening hours
+ * @param legs - Walking legs from the start through the stops, in seconds
+ */
+export function buildSchedule(
+  startAt: Date,
+  stops: Bar[],
+  legs: Array<{ duration: number }>,
+  getDwellMinutes: (bar: Bar) => number
+): ScheduledStop[] {
+  let time = startAt.getTime();
+
+  return stops.map((bar, index) => {
+    const arriveAt = new Date(time + (legs[index]?.duration ?? 0) * 1000);
+    const dwell = getDwellMinutes(bar);
+    const leaveAt = new Date(arriveAt.getTime() + dwell * 60 * 1000);
+    time = leaveAt.getTime();
+
+    const status = getBarOpeningStatus(bar, arriveAt, { planned: true });
+    let warning: ScheduleWarning | undefined;
+    if (status.state === 'closed') warning = 'closed';
+    else if (status.state === 'unknown') warning = 'unknown';
+    else if (status.closesInMinutes !== undefined && status.closesInMinutes < dwell) warning = 'closes_early';
+
+    return { bar, arriveAt, leaveAt, status, warning };
+  });
+}
@@ -0,0 +1,127 @@
+import { Coordinates } from '@/hooks/use-geolocation';
+
+const EARTH_RADIUS_METERS = 6371000;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+/**
+ * Calculates the great-circle distance between two points using the haversine formula
+ */
+export function getDistanceInMeters(from: Coordinates, to: Coordinates): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Converts a bar's [lng, lat] tuple to Coordinates
+ */
+export function barCoordinates(coordinates: [number, number]): Coordinates {
+  return { latitude: coordinates[1], longitude: coordinates[0] };
+}
+
+const METERS_PER_DEGREE_LATITUDE = 111320;
+
+/**
+ * Moves a point by the given number of meters east (dx) and north (dy)
+ */
+export function offsetCoordinates(origin: Coordinates, dx: number, dy: number): Coordinates {
+  return {
+    latitude: origin.latitude + dy / METERS_PER_DEGREE_LATITUDE,
+    longitude:
+      origin.longitude + dx / (METERS_PER_DEGREE_LATITUDE * Math.cos(toRadians(origin.latitude))),
+  };
+}
+
+/**
+ * Moves a point the given number of meters along a compass bearing (degrees, 0 = north)
+ */
+export function movePoint(origin: Coordinates, meters: number, bearing: number): Coordinates {
+  const angle = toRadians(bearing);
+  return offsetCoordinates(origin, meters * Math.sin(angle), meters * Math.cos(angle));
+}
+
+/**
+ * Whether a point lies inside a polygon (ray casting; the ring may be open or closed)
+ */
+export function isInsidePolygon(point: Coordinates, polygon: Coordinates[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses =
+      a.latitude > point.latitude !== b.latitude > point.latitude &&
+      point.longitude <
+        ((b.longitude - a.longitude) * (point.latitude - a.latitude)) / (b.latitude - a.latitude) + a.longitude;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Returns centers of overlapping circles of radius tileRadius that together
+ * cover the circle around center. Uses a hexagonal grid, which covers the
+ * plane with the least overlap for equal circles.
+ */
+export function coverCircle(center: Coordinates, radius: number, tileRadius: number): Coordinates[] {
+  if (tileRadius >= radius) return [center];
+
+  const columnSpacing = Math.sqrt(3) * tileRadius;
+  const rowSpacing = 1.5 * tileRadius;
+  // Any point inside the circle lies within tileRadius of a grid point
+  const reach = radius + tileRadius;
+  const rows = Math.ceil(reach / rowSpacing);
+  const columns = Math.ceil(reach / columnSpacing) + 1;
+  const centers: Coordinates[] = [];
+
+  for (let row = -rows; row <= rows; row++) {
+    const shift = row % 2 === 0 ? 0 : columnSpacing / 2;
+    for (let column = -columns; column <= columns; column++) {
+      const dx = column * columnSpacing + shift;
+      const dy = row * rowSpacing;
+      if (Math.hypot(dx, dy) < reach) {
+        centers.push(offsetCoordinates(center, dx, dy));
+      }
+    }
+  }
+
+  return centers;
+}
+
+/**
+ * Decodes an encoded polyline (precision 5 for OSRM/Google, 6 for Valhalla)
+ * into [lat, lng] pairs
+ */
+export function decodePolyline(encoded: string, precision = 5): Array<[number, number]> {
+  const factor = 10 ** precision;
+  const points: Array<[number, number]> = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const nextValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += nextValue();
+    lng += nextValue();
+    points.push([lat / factor, lng / factor]);
+  }
+
+  return points;
+}
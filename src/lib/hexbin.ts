@@ -0,0 +1,62 @@
+import { ScreenPoint } from '@/lib/cluster';
+
+/**
+ * Hexagonal binning in screen space for density overlays: every item falls
+ * in the pointy-top hexagon of the given radius (in pixels) that holds it.
+ */
+
+export interface HexBin<T> {
+  items: T[];
+  center: ScreenPoint; // Center of the hexagon, in pixels
+}
+
+const SQRT3 = Math.sqrt(3);
+
+/**
+ * Rounds fractional axial hex coordinates to the hexagon containing them
+ */
+function roundHex(q: number, r: number): [number, number] {
+  const s = -q - r;
+  let roundedQ = Math.round(q);
+  let roundedR = Math.round(r);
+  const roundedS = Math.round(s);
+
+  const dq = Math.abs(roundedQ - q);
+  const dr = Math.abs(roundedR - r);
+  const ds = Math.abs(roundedS - s);
+  if (dq > dr && dq > ds) roundedQ = -roundedR - roundedS;
+  else if (dr > ds) roundedR = -roundedQ - roundedS;
+
+  return [roundedQ, roundedR];
+}
+
+/**
+ * Groups items by the hexagon their pixel position falls in
+ */
+export function hexBin<T>(items: T[], getPoint: (item: T) => ScreenPoint, radius: number): HexBin<T>[] {
+  const bins = new Map<string, HexBin<T>>();
+
+  for (const item of items) {
+    const point = getPoint(item);
+    const [q, r] = roundHex(((SQRT3 / 3) * point.x - point.y / 3) / radius, ((2 / 3) * point.y) / radius);
+    const key = `${q}:${r}`;
+    const bin = bins.get(key);
+    if (bin) {
+      bin.items.push(item);
+    } else {
+      bins.set(key, { items: [item], center: { x: radius * SQRT3 * (q + r / 2), y: radius * 1.5 * r } });
+    }
+  }
+
+  return Array.from(bins.values());
+}
+
+/**
+ * Corners of the pointy-top hexagon around a center, clockwise from the top
+ */
+export function hexCorners(center: ScreenPoint, radius: number): ScreenPoint[] {
+  return Array.from({ length: 6 }, (_, index) => {
+    const angle = (Math.PI / 3) * index - Math.PI / 2;
+    return { x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) };
+  });
+}
@@ -0,0 +1,244 @@
+import tzLookup from '@photostructure/tz-lookup';
+import { Bar, BusinessHours } from '@/data/bars';
+import { Coordinates } from '@/hooks/use-geolocation';
+import { config } from '@/config/app';
+import { formatTime } from '@/lib/utils';
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+export type OpeningState = 'open' | 'closed' | 'unknown';
+
+/**
+ * Whether a bar is open at some instant and when that changes
+ */
+export interface OpeningStatus {
+  state: OpeningState;
+  closesInMinutes?: number; // Open: minutes until closing, undefined when open around the clock
+  closesAt?: string; // Open: local closing time, "0200" format
+  opensInMinutes?: number; // Closed: minutes until the next opening, undefined when it never opens
+  opensAt?: { day: number; time: string }; // Closed: local day (0 = Monday) and time of the next opening
+  timeZone?: string; // Zone the local times are in
+}
+
+interface Interval {
+  start: number; // Minutes since Monday 00:00, local time
+  end: number; // May run past the end of the week for Sunday night slots
+  day: number;
+  startTime: string;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * IANA time zone at a location, falling back to the configured zone
+ */
+export function getTimeZone({ latitude, longitude }: Coordinates): string {
+  try {
+    return tzLookup(latitude, longitude);
+  } catch {
+    return config.hours.timeZone;
+  }
+}
+
+/**
+ * Time zone a bar's business hours are in
+ */
+export function getBarTimeZone(bar: Bar): string {
+  return getTimeZone({ latitude: bar.coordinates[1], longitude: bar.coordinates[0] });
+}
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-GB', {
+      timeZone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function parseTime(time: string): number {
+  return Number(time.slice(0, 2)) * 60 + Number(time.slice(2, 4));
+}
+
+function toTimeString(minutes: number): string {
+  const minuteOfDay = minutes % MINUTES_PER_DAY;
+  const hours = Math.floor(minuteOfDay / 60);
+  return `${String(hours).padStart(2, '0')}${String(minuteOfDay % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Minutes since Monday 00:00 at the given instant in a time zone
+ */
+export function getWeekMinute(at: Date, timeZone: string = config.hours.timeZone): number {
+  const parts = getFormatter(timeZone).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((candidate) => candidate.type === type)?.value ?? '';
+  const day = WEEKDAYS.indexOf(part('weekday'));
+  return day * MINUTES_PER_DAY + Number(part('hour')) * 60 + Number(part('minute'));
+}
+
+const VENUE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/;
+
+/**
+ * Offset of a time zone from UTC at an instant, in minutes
+ */
+function getZoneOffset(at: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((candidate) => candidate.type === type)?.value);
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'));
+  return Math.round((wallClock - at.getTime()) / 60000);
+}
+
+/**
+ * Converts a wall-clock time at the venues ("2026-10-24T01:30") to an instant.
+ * Returns null for malformed values.
+ */
+export function venueTimeToDate(value: string, timeZone: string = config.hours.timeZone): Date | null {
+  const match = VENUE_TIME_PATTERN.exec(value);
+  if (!match) return null;
+
+  const [year, month, day, hour, minute] = match.slice(1).map(Number);
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23 || minute > 59) return null;
+
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  // Correct with the offset found at the first guess, then once more in case
+  // that guess fell on the other side of a DST change
+  let instant = wallClock - getZoneOffset(new Date(wallClock), timeZone) * 60000;
+  instant = wallClock - getZoneOffset(new Date(instant), timeZone) * 60000;
+  return new Date(instant);
+}
+
+/**
+ * Formats an instant as the wall-clock time at the venues, e.g. "21:45"
+ */
+export function formatVenueTime(at: Date, timeZone: string = config.hours.timeZone): string {
+  return new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).format(at);
+}
+
+/**
+ * Turns the weekly slots into intervals on a Monday-based week. Overnight slots
+ * (is_overnight, or an end at or before the start) end on the next day.
+ */
+function toIntervals(hours: BusinessHours['hours']): Interval[] {
+  return hours
+    .map((slot) => {
+      const start = slot.day * MINUTES_PER_DAY + parseTime(slot.start);
+      let duration = parseTime(slot.end) - parseTime(slot.start);
+      if (slot.is_overnight || duration <= 0) duration += MINUTES_PER_DAY;
+      return { start, end: start + duration, day: slot.day, startTime: slot.start };
+    })
+    .sort((a, b) => a.start - b.start);
+}
+
+function contains(interval: Interval, minute: number): boolean {
+  return (
+    (minute >= interval.start && minute < interval.end) ||
+    (minute + MINUTES_PER_WEEK >= interval.start && minute + MINUTES_PER_WEEK < interval.end)
+  );
+}
+
+/**
+ * Computes the opening status from weekly business hours at any instant.
+ * Back-to-back slots (e.g. 18:00-24:00 and 00:00-03:00) count as one opening.
+ */
+export function getOpeningStatus(
+  hours: BusinessHours | undefined,
+  at: Date,
+  timeZone: string = config.hours.timeZone
+): OpeningStatus {
+  if (!hours || hours.hours.length === 0) return { state: 'unknown', timeZone };
+
+  const intervals = toIntervals(hours.hours);
+  const now = getWeekMinute(at, timeZone);
+  const current = intervals.find((interval) => contains(interval, now));
+
+  if (current) {
+    // Minutes from now until the end of the current interval, following slots
+    // that start the moment the previous one ends
+    let remaining = (current.end - now + MINUTES_PER_WEEK) % MINUTES_PER_WEEK || MINUTES_PER_WEEK;
+    for (;;) {
+      const closing = now + remaining;
+      const next = intervals.find((interval) => contains(interval, closing % MINUTES_PER_WEEK));
+      if (!next || remaining >= MINUTES_PER_WEEK) break;
+      remaining += (next.end - closing + 2 * MINUTES_PER_WEEK) % MINUTES_PER_WEEK || MINUTES_PER_WEEK;
+    }
+    if (remaining >= MINUTES_PER_WEEK) return { state: 'open', timeZone };
+    return { state: 'open', closesInMinutes: remaining, closesAt: toTimeString(now + remaining), timeZone };
+  }
+
+  let next: Interval | undefined;
+  let opensInMinutes: number | undefined;
+  for (const interval of intervals) {
+    const until = (interval.start - now + MINUTES_PER_WEEK) % MINUTES_PER_WEEK;
+    if (opensInMinutes === undefined || until < opensInMinutes) {
+      opensInMinutes = until;
+      next = interval;
+    }
+  }
+
+  return {
+    state: 'closed',
+    opensInMinutes,
+    opensAt: next ? { day: next.day, time: next.startTime } : undefined,
+    timeZone,
+  };
+}
+
+interface BarOpeningOptions {
+  planned?: boolean; // `at` is a planned time, so the provider's open-now snapshot doesn't apply
+}
+
+/**
+ * Opening status of a bar at `at` (default now). For the current time the
+ * provider's open-now snapshot covers bars that come without hours.
+ */
+export function getBarOpeningStatus(
+  bar: Bar,
+  at: Date = new Date(),
+  { planned = false }: BarOpeningOptions = {}
+): OpeningStatus {
+  const status = getOpeningStatus(bar.businessHours, at, getBarTimeZone(bar));
+  if (status.state === 'unknown' && !planned && bar.isOpenNow !== undefined) {
+    return { state: bar.isOpenNow ? 'open' : 'closed', timeZone: status.timeZone };
+  }
+  return status;
+}
+
+/**
+ * Short badge text for an opening status, e.g. "Closes in 25 min" or "Opens Tue 16:00"
+ */
+export function formatOpeningStatus(status: OpeningStatus, at: Date = new Date()): string {
+  const soon = config.hours.closingSoonMinutes;
+
+  if (status.state === 'open') {
+    if (status.closesInMinutes === undefined) return 'Open 24 hours';
+    if (status.closesInMinutes <= soon) return `Closes in ${status.closesInMinutes} min`;
+    return `Open until ${formatTime(status.closesAt!)}`;
+  }
+
+  if (status.state === 'closed') {
+    if (status.opensInMinutes === undefined || !status.opensAt) return 'Closed';
+    if (status.opensInMinutes <= soon) return `Opens in ${status.opensInMinutes} min`;
+    const today = Math.floor(getWeekMinute(at, status.timeZone) / MINUTES_PER_DAY);
+    const sameDay = status.opensAt.day === today && status.opensInMinutes < MINUTES_PER_DAY;
+    return `Opens ${sameDay ? '' : `${WEEKDAYS[status.opensAt.day]} `}${formatTime(status.opensAt.time)}`;
+  }
+
+  return 'Hours unknown';
+}
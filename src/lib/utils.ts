@@ -33,6 +33,26 @@ export function formatDistance(meters?: number): string {
   return `${(meters / 1000).toFixed(1)} km`;
 }
 
+/**
+ * Short search radius label, e.g. "250m" or "1.5km"
+ */
+export function formatRadius(meters: number): string {
+  if (meters < 1000) return `${Math.round(meters)}m`;
+  return `${Number((meters / 1000).toFixed(1))}km`;
+}
+
+/**
+ * Formats a duration in seconds as e.g. "8 min" or "1 h 15 min"
+ */
+export function formatDuration(seconds: number): string {
+  const minutes = Math.max(1, Math.round(seconds / 60));
+  if (minutes < 60) return `${minutes} min`;
+
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest ? `${hours} h ${rest} min` : `${hours} h`;
+}
+
 /**
  * Converts 24-hour time string (e.g., "1530") to readable format (e.g., "15:30")
  */
@@ -0,0 +1,245 @@
+import { useMemo } from 'react';
+import { useLocation, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Heart, MapPin, Navigation, Phone, Star, Clock } from 'lucide-react';
+import { ProviderId } from '@/data/bars';
+import { useBarDetails } from '@/hooks/use-bar-details';
+import { useFavorites } from '@/hooks/use-favorites';
+import { useNow } from '@/hooks/use-now';
+import { parseExploreState, serializeExploreState } from '@/hooks/use-explore-state';
+import { getProvider } from '@/services/providers';
+import { toProviderError } from '@/services/errors';
+import { barCoordinates, getDistanceInMeters } from '@/lib/geo';
+import { formatOpeningStatus, getBarOpeningStatus } from '@/lib/hours';
+import { formatDistance, formatTime, getPriceRangeInNOK } from '@/lib/utils';
+import ErrorPanel from '@/components/ErrorPanel';
+import ReviewsSection from '@/components/ReviewsSection';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+
+const DAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+const TRANSACTION_LABELS: Record<string, string> = {
+  delivery: 'Delivery',
+  pickup: 'Pickup',
+  restaurant_reservation: 'Reservations',
+};
+
+/**
+ * Full page for one bar: all photos, opening hours for the week, services
+ * and the review list. Works from a shared link without a search.
+ */
+const BarPage = () => {
+  const { barId } = useParams<{ barId: string }>();
+  const [searchParams] = useSearchParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { favorites, toggleFavorite } = useFavorites();
+
+  const source = (searchParams.get('src') as ProviderId | null) ?? undefined;
+  const explore = useMemo(() => parseExploreState(searchParams), [searchParams]);
+
+  const details = useBarDetails(barId, source);
+  const bar = details.data?.bar;
+  const provider = details.data ? getProvider(details.data.provider) : undefined;
+
+  // Re-render every minute so the opening badge stays current
+  const now = useNow();
+  const openingStatus = bar ? getBarOpeningStatus(bar, now) : undefined;
+
+  const handleBack = () => {
+    // Opened from within the app: go back to the search as it was
+    if (location.key !== 'default') {
+      navigate(-1);
+      return;
+    }
+    const query = serializeExploreState(explore).toString();
+    navigate(query ? `/?${query}` : '/');
+  };
+
+  const distance =
+    bar && explore.location ? getDistanceInMeters(explore.location.coordinates, barCoordinates(bar.coordinates)) : undefined;
+
+  const photos = bar ? Array.from(new Set([...(bar.photos ?? []), bar.image])) : [];
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-40 bg-card border-b border-border backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4 flex items-center gap-3">
+          <Button variant="ghost" size="sm" onClick={handleBack} className="hover:bg-primary/10">
+            <ArrowLeft className="w-4 h-4 md:mr-2" />
+            <span className="hidden md:inline">Back</span>
+          </Button>
+          <div className="h-6 w-px bg-border" />
+          <h1 className="text-xl md:text-2xl font-bold truncate">{bar?.name ?? 'Bar details'}</h1>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 max-w-4xl space-y-6">
+        {details.isPending && (
+          <div className="text-center py-12">
+            <div className="h-8 w-8 mx-auto mb-4 border-4 border-primary/20 border-t-primary rounded-full animate-spin" />
+            <p className="text-muted-foreground">Loading bar details...</p>
+          </div>
+        )}
+
+        {details.isError && (
+          <ErrorPanel error={toProviderError(details.error, source)} onRetry={() => details.refetch()} />
+        )}
+
+        {details.isSuccess && !bar && (
+          <div className="text-center py-12">
+            <p className="text-muted-foreground mb-4">This bar could not be found.</p>
+            <Button variant="outline" onClick={() => navigate('/')}>Find bars</Button>
+          </div>
+        )}
+
+        {bar && (
+          <>
+            {/* Photos */}
+            <div className="grid grid-cols-2 gap-2">
+              {photos.map((photo, index) => (
+                <img
+                  key={photo}
+                  src={photo}
+                  alt={`${bar.name} photo ${index + 1}`}
+                  className={`w-full object-cover rounded-lg ${index === 0 ? 'col-span-2 h-64 md:h-80' : 'h-32 md:h-48'}`}
+                />
+              ))}
+            </div>
+
+            {/* Summary */}
+            <div className="space-y-4">
+              <div className="flex items-start justify-between gap-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline">{bar.type.replace('-', ' ')}</Badge>
+                  {openingStatus && openingStatus.state !== 'unknown' && (
+                    <Badge variant={openingStatus.state === 'open' ? 'default' : 'secondary'}>
+                      {formatOpeningStatus(openingStatus, now)}
+                    </Badge>
+                  )}
+                </div>
+                <Button
+                  variant={favorites.has(bar.id) ? 'default' : 'outline'}
+                  size="icon"
+                  onClick={() => toggleFavorite(bar.id)}
+                >
+                  <Heart className={`h-5 w-5 ${favorites.has(bar.id) ? 'fill-current' : ''}`} />
+                </Button>
+              </div>
+
+              <div className="flex items-center gap-4">
+                <div className="flex items-center gap-1 bg-primary/10 px-3 py-1.5 rounded-full">
+                  <Star className="h-5 w-5 fill-primary text-primary" />
+                  <span className="font-semibold">{bar.rating}</span>
+                  {bar.reviewCount !== undefined && (
+                    <span className="text-xs text-muted-foreground">({bar.reviewCount} reviews)</span>
+                  )}
+                </div>
+                <div className="flex flex-col">
+                  <span className="font-semibold text-primary">{getPriceRangeInNOK(bar.priceLevel)}</span>
+                  <span className="text-xs text-muted-foreground">per drink</span>
+                </div>
+              </div>
+
+              <div className="space-y-2 text-muted-foreground">
+                <div className="flex items-start">
+                  <MapPin className="h-5 w-5 mr-2 mt-0.5 flex-shrink-0" />
+                  <a
+                    href={`https://www.google.com/maps/search/?api=1&query=${bar.coordinates[1]},${bar.coordinates[0]}`}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="hover:text-primary hover:underline"
+                  >
+                    {bar.address}
+                  </a>
+                </div>
+                {distance !== undefined && (
+                  <div className="flex items-center">
+                    <Navigation className="h-5 w-5 mr-2 flex-shrink-0" />
+                    <span>{formatDistance(distance)} from {explore.location?.name ?? 'your search'}</span>
+                  </div>
+                )}
+                {bar.displayPhone && (
+                  <div className="flex items-center">
+                    <Phone className="h-5 w-5 mr-2 flex-shrink-0" />
+                    <a href={`tel:${bar.phone}`} className="text-primary hover:underline">{bar.displayPhone}</a>
+                  </div>
+                )}
+              </div>
+
+              {bar.transactions && bar.transactions.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {bar.transactions.map((transaction) => (
+                    <Badge key={transaction} variant="secondary">
+                      {TRANSACTION_LABELS[transaction] ?? transaction.replace(/_/g, ' ')}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Opening hours */}
+            <Card className="p-4">
+              <h2 className="text-lg font-semibold mb-3 flex items-center gap-2">
+                <Clock className="h-5 w-5" />
+                Opening Hours
+              </h2>
+              {bar.businessHours && bar.businessHours.hours.length > 0 ? (
+                <table className="w-full text-sm">
+                  <tbody>
+                    {DAY_NAMES.map((dayName, day) => {
+                      const slots = bar.businessHours!.hours.filter((slot) => slot.day === day);
+                      return (
+                        <tr key={dayName} className="border-b border-border last:border-0">
+                          <td className="py-1.5 font-medium">{dayName}</td>
+                          <td className="py-1.5 text-right text-muted-foreground">
+                            {slots.length > 0
+                              ? slots.map((slot) => `${formatTime(slot.start)}–${formatTime(slot.end)}`).join(', ')
+                              : 'Closed'}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              ) : (
+                <p className="text-sm text-muted-foreground">Hours not available</p>
+              )}
+            </Card>
+
+            {/* About */}
+            <div className="space-y-2">
+              <h2 className="text-lg font-semibold">About</h2>
+              <p className="text-muted-foreground leading-relaxed">{bar.description}</p>
+              {bar.categories && bar.categories.length > 0 && (
+                <div className="flex flex-wrap gap-2 pt-1">
+                  {bar.categories.map((category) => (
+                    <Badge key={category} variant="outline" className="text-xs">{category}</Badge>
+                  ))}
+                </div>
+              )}
+              {provider && (
+                <p className="text-xs text-muted-foreground pt-2">
+                  Data from {provider.name}
+                  {bar.providerUrl && (
+                    <>
+                      {' • '}
+                      <a href={bar.providerUrl} target="_blank" rel="noreferrer" className="text-primary hover:underline">
+                        View on {provider.name}
+                      </a>
+                    </>
+                  )}
+                </p>
+              )}
+            </div>
+
+            <ReviewsSection barId={barId} provider={details.data?.provider} />
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default BarPage;
@@ -0,0 +1,156 @@
+import { Link } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { ArrowLeft, RefreshCw, Activity } from 'lucide-react';
+import { format } from 'date-fns';
+import { CheckStatus, runDiagnostics } from '@/services/diagnostics';
+import { QuotaStatus } from '@/services/http';
+import { config } from '@/config/app';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+
+const statusBadges: Record<CheckStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  ok: { label: 'OK', variant: 'default' },
+  warning: { label: 'Warning', variant: 'secondary' },
+  error: { label: 'Error', variant: 'destructive' },
+  skipped: { label: 'Skipped', variant: 'outline' },
+};
+
+const StatusBadge = ({ status }: { status: CheckStatus }) => (
+  <Badge variant={statusBadges[status].variant}>{statusBadges[status].label}</Badge>
+);
+
+const yesNo = (value: boolean | null) => (value === null ? '—' : value ? 'Yes' : 'No');
+
+const formatQuota = (quota?: QuotaStatus) => {
+  if (!quota) return '—';
+  if (quota.remaining !== undefined && quota.limit !== undefined) return `${quota.remaining} / ${quota.limit}`;
+  return `${quota.remaining ?? '?'} left`;
+};
+
+/**
+ * Provider health page: checks every venue provider through the API proxy
+ * and the public map services the app depends on
+ */
+const Diagnostics = () => {
+  const { data: report, isFetching, refetch } = useQuery({
+    queryKey: ['diagnostics'],
+    queryFn: runDiagnostics,
+    staleTime: 0,
+    gcTime: 0,
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      <header className="sticky top-0 z-40 bg-card border-b border-border backdrop-blur-sm">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="sm" asChild className="hover:bg-primary/10">
+              <Link to="/">
+                <ArrowLeft className="w-4 h-4 md:mr-2" />
+                <span className="hidden md:inline">Back</span>
+              </Link>
+            </Button>
+            <div className="h-6 w-px bg-border" />
+            <div>
+              <h1 className="text-2xl md:text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+                Diagnostics
+              </h1>
+              <p className="text-sm text-muted-foreground">
+                {report ? `Checked ${format(report.checkedAt, 'HH:mm:ss')}` : 'Checking services...'}
+              </p>
+            </div>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+            Run again
+          </Button>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-6 space-y-6">
+        {report && !report.proxyReachable && (
+          <Alert variant="destructive">
+            <Activity className="h-4 w-4" />
+            <AlertTitle>API proxy not reachable</AlertTitle>
+            <AlertDescription>
+              {`${config.apiBaseUrl}/health`} did not answer, so we can't tell which API keys are set.
+              Start it with <code>npm run proxy</code> or check VITE_API_BASE_URL.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <Card className="p-4">
+          <h2 className="text-lg font-semibold mb-3">Venue providers</h2>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Provider</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Enabled</TableHead>
+                <TableHead>Key on proxy</TableHead>
+                <TableHead>Auth</TableHead>
+                <TableHead>Latency</TableHead>
+                <TableHead>Quota</TableHead>
+                <TableHead>Sample</TableHead>
+                <TableHead>Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report?.providers.map((health) => (
+                <TableRow key={health.provider}>
+                  <TableCell className="font-medium">{health.name}</TableCell>
+                  <TableCell><StatusBadge status={health.status} /></TableCell>
+                  <TableCell>{yesNo(health.enabled)}</TableCell>
+                  <TableCell>{yesNo(health.keyPresent)}</TableCell>
+                  <TableCell>{yesNo(health.authOk)}</TableCell>
+                  <TableCell>{health.latencyMs !== undefined ? `${health.latencyMs} ms` : '—'}</TableCell>
+                  <TableCell>{formatQuota(health.quota)}</TableCell>
+                  <TableCell>{health.sampleCount ?? '—'}</TableCell>
+                  <TableCell className="text-muted-foreground">{health.message}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+
+        <Card className="p-4">
+          <h2 className="text-lg font-semibold mb-3">Map services</h2>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Service</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Latency</TableHead>
+                <TableHead>Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report?.services.map((health) => (
+                <TableRow key={health.name}>
+                  <TableCell className="font-medium">{health.name}</TableCell>
+                  <TableCell><StatusBadge status={health.status} /></TableCell>
+                  <TableCell>{health.latencyMs !== undefined ? `${health.latencyMs} ms` : '—'}</TableCell>
+                  <TableCell className="text-muted-foreground">{health.message}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Card>
+
+        {!report && isFetching && (
+          <div className="text-center py-12">
+            <div className="h-8 w-8 mx-auto mb-4 border-4 border-primary/20 border-t-primary rounded-full animate-spin" />
+            <p className="text-muted-foreground">Running checks...</p>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default Diagnostics;
@@ -1,68 +1,165 @@
-import { useState, useEffect, useRef } from 'react';
-import { Map, List, Heart, AlertCircle, Home } from 'lucide-react';
+import { useState, useRef, useMemo } from 'react';
+import { Map, List, Heart, AlertCircle, Home, WifiOff, CalendarClock, Footprints } from 'lucide-react';
+import { format, formatDistanceToNow, parse } from 'date-fns';
 import { Bar, BarType } from '@/data/bars';
 import { useBars } from '@/hooks/use-bars';
+import { ExploreView, SearchArea, barPagePath, useExploreState } from '@/hooks/use-explore-state';
+import { useFavorites } from '@/hooks/use-favorites';
+import { useNow } from '@/hooks/use-now';
+import { useCrawl, useCrawlRoute } from '@/hooks/use-crawl';
+import { useTravelTimes } from '@/hooks/use-travel-times';
+import { useIsochrone } from '@/hooks/use-isochrone';
+import { OpeningStatus, getBarOpeningStatus, getTimeZone, venueTimeToDate } from '@/lib/hours';
+import { buildSchedule } from '@/lib/crawl';
+import { ProviderSelection, getActiveProviderId, getLiveProviders, getProvider, setActiveProviderId } from '@/services/providers';
 import MapView from '@/components/MapView';
 import BarCard from '@/components/BarCard';
 import BarDetail from '@/components/BarDetail';
 import FilterBar from '@/components/FilterBar';
 import FilterDialog, { SortOption } from '@/components/FilterDialog';
+import LoadMoreTrigger from '@/components/LoadMoreTrigger';
+import ErrorPanel from '@/components/ErrorPanel';
+import CrawlPlanner from '@/components/CrawlPlanner';
+import ThemeToggle from '@/components/ThemeToggle';
 import StartPage from './StartPage';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
 import { toast } from '@/hooks/use-toast';
+import { config } from '@/config/app';
+import { getJson, isAbortError } from '@/services/http';
+import { TravelMode, getTravelMode, getWalkingReach, setTravelMode as saveTravelMode } from '@/services/routing';
+import { barCoordinates, isInsidePolygon } from '@/lib/geo';
+import { formatRadius } from '@/lib/utils';
 
 const Index = () => {
-  const [selectedLocation, setSelectedLocation] = useState<{
-    coordinates: { latitude: number; longitude: number };
-    name?: string;
-  } | null>(null);
+  // Location, radius, filters, view and selected bar live in the URL
+  const [explore, updateExplore] = useExploreState();
+  const {
+    location: selectedLocation,
+    radius,
+    walkMinutes,
+    view,
+    type: selectedType,
+    favoritesOnly: showFavoritesOnly,
+    sortBy,
+    minRating,
+    openOnly,
+    openAt,
+  } = explore;
 
-  const [radius, setRadius] = useState<number>(500); // 500m default
+  const [provider, setProvider] = useState<ProviderSelection>(getActiveProviderId);
+  const [travelMode, setTravelMode] = useState<TravelMode>(getTravelMode);
 
-  const { bars, loading, error, refetch, usingMockData, userLocation } = useBars({
-    coordinates: selectedLocation?.coordinates || null,
-    radius: radius, // Use the radius state
+  // Walking-time search: bars inside the walkable area, found by searching the
+  // circle it fits in
+  const isochrone = useIsochrone(selectedLocation?.coordinates ?? null, walkMinutes);
+  const searchRadius = walkMinutes ? getWalkingReach(walkMinutes) : radius;
+
+  // "Search this area" searches the visible map instead, leaving the pin in place
+  const searchArea = explore.area;
+  const walkableArea = walkMinutes && !searchArea ? isochrone.data?.polygon : undefined;
+
+  const {
+    bars,
+    loading,
+    refreshing,
+    error,
+    refetch,
+    canShowSavedResults,
+    showSavedResults,
+    usingMockData,
+    usingCachedData,
+    online,
+    updatedAt,
+    userLocation,
+    hasMore,
+    loadingMore,
+    loadMore,
+    total,
+    coverage,
+  } = useBars({
+    coordinates: searchArea?.center ?? selectedLocation?.coordinates ?? null,
+    radius: searchArea?.radius ?? searchRadius,
+    origin: searchArea ? selectedLocation?.coordinates : undefined,
+    provider,
+    autoPaginate: view === 'map', // The map shows every bar in range at once
+    exhaustive: !!searchArea, // A searched area should list all of its bars, not just the closest ones
   });
   
-  const [favorites, setFavorites] = useState<Set<string>>(new Set());
-  const [selectedBar, setSelectedBar] = useState<Bar | null>(null);
-  const [view, setView] = useState<'map' | 'list'>('list');
-  const [selectedType, setSelectedType] = useState<BarType | null>(null);
-  const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
-  const [sortBy, setSortBy] = useState<SortOption>('default');
-  const [minRating, setMinRating] = useState<number>(0);
-  const [openOnly, setOpenOnly] = useState<boolean>(false);
+  // Finding nothing still shows the (empty) map so the pin can be moved
+  const blockingError = error && error.kind !== 'no_results';
+
+  // Another configured provider to offer when the current one fails
+  const switchTarget = error
+    ? getLiveProviders().find((candidate) => candidate.id !== provider && candidate.id !== error.provider)
+    : undefined;
+  
+  const { favorites, toggleFavorite } = useFavorites();
   const [routeToBar, setRouteToBar] = useState<Bar | null>(null);
 
+  // Bar crawl, starting from the search location
+  const crawl = useCrawl(selectedLocation?.coordinates ?? null);
+  const [crawlOpen, setCrawlOpen] = useState(false);
+  const [showCrawlRoute, setShowCrawlRoute] = useState(false);
+
+  // The bar opened from the list, kept in case it drops out of the results
+  const [lastSelectedBar, setLastSelectedBar] = useState<Bar | null>(null);
+  const selectedBar = explore.barId
+    ? bars.find((bar) => bar.id === explore.barId) ?? (lastSelectedBar?.id === explore.barId ? lastSelectedBar : null)
+    : null;
+
+  const setSelectedBar = (bar: Bar | null) => {
+    if (bar) setLastSelectedBar(bar);
+    updateExplore({ barId: bar?.id ?? null });
+  };
+  const setView = (next: ExploreView) => updateExplore({ view: next });
+  const setSelectedType = (type: BarType | null) => updateExplore({ type }, { replace: true });
+  const setSortBy = (next: SortOption) => updateExplore({ sortBy: next }, { replace: true });
+  const setMinRating = (rating: number) => updateExplore({ minRating: rating }, { replace: true });
+  // "Open now" and a planned time exclude each other
+  const setOpenOnly = (next: boolean) =>
+    updateExplore(next ? { openOnly: true, openAt: null } : { openOnly: false }, { replace: true });
+  const setOpenAt = (next: string | null) =>
+    updateExplore(next ? { openAt: next, openOnly: false } : { openAt: null }, { replace: true });
+  // A new radius searches around the pin again
+  const setRadius = (next: number) => updateExplore({ radius: next, area: null }, { replace: true });
+  const setWalkMinutes = (next: number | null) => updateExplore({ walkMinutes: next }, { replace: true });
+  const setShowFavoritesOnly = (next: boolean) => updateExplore({ favoritesOnly: next }, { replace: true });
+
   const handleLocationSelected = (
     coordinates: { latitude: number; longitude: number },
     locationName?: string
   ) => {
-    setSelectedLocation({ coordinates, name: locationName });
+    updateExplore({ location: { coordinates, name: locationName }, area: null, barId: null });
+  };
+
+  const handleSearchArea = (area: SearchArea) => {
+    updateExplore({ area, barId: null });
   };
 
+  const geocodeRequestRef = useRef<AbortController | null>(null);
+
   const handleLocationChange = async (coordinates: { latitude: number; longitude: number }) => {
     // Optimistically update with coordinates first
-    setSelectedLocation({ 
-      coordinates, 
-      name: `(${coordinates.latitude.toFixed(4)}, ${coordinates.longitude.toFixed(4)})` 
-    });
+    updateExplore({ location: { coordinates }, area: null, barId: null });
+
+    // A newer drag supersedes any reverse geocoding still in flight
+    geocodeRequestRef.current?.abort();
+    const request = new AbortController();
+    geocodeRequestRef.current = request;
     
     // Try to get city name via reverse geocoding
     try {
-      const response = await fetch(
-        `https://nominatim.openstreetmap.org/reverse?format=json&lat=${coordinates.latitude}&lon=${coordinates.longitude}&zoom=10`
+      const data = await getJson<{ address?: Record<string, string> }>(
+        `${config.services.nominatimUrl}/reverse?format=json&lat=${coordinates.latitude}&lon=${coordinates.longitude}&zoom=10`,
+        { budget: 'nominatim', signal: request.signal }
       );
-      const data = await response.json();
       const cityName = data.address?.city || data.address?.town || data.address?.village || data.address?.county || `(${coordinates.latitude.toFixed(4)}, ${coordinates.longitude.toFixed(4)})`;
       
       // Update with actual city name
-      setSelectedLocation({ 
-        coordinates, 
-        name: cityName 
-      });
+      updateExplore({ location: { coordinates, name: cityName } }, { replace: true });
       
       // Show toast notification with city name
       toast({
@@ -71,6 +168,8 @@ const Index = () => {
         duration: 3000,
       });
     } catch (err) {
+      if (isAbortError(err)) return;
+
       // Show toast notification with coordinates if geocoding fails
       toast({
         title: "Location updated",
@@ -80,48 +179,56 @@ const Index = () => {
     }
   };
 
+  const handleProviderChange = (next: ProviderSelection) => {
+    setActiveProviderId(next);
+    setProvider(next);
+  };
+
+  const handleTravelModeChange = (next: TravelMode) => {
+    saveTravelMode(next);
+    setTravelMode(next);
+  };
+
   const handleBackToStart = () => {
-    setSelectedLocation(null);
+    updateExplore({ location: null, barId: null });
   };
 
-  // Load favorites from localStorage
-  useEffect(() => {
-    const stored = localStorage.getItem('bar-favorites');
-    if (stored) {
-      setFavorites(new Set(JSON.parse(stored)));
-    }
-  }, []);
-
-  // Save favorites to localStorage
-  useEffect(() => {
-    localStorage.setItem('bar-favorites', JSON.stringify(Array.from(favorites)));
-  }, [favorites]);
-
-  const toggleFavorite = (barId: string) => {
-    setFavorites((prev) => {
-      const next = new Set(prev);
-      if (next.has(barId)) {
-        next.delete(barId);
-      } else {
-        next.add(barId);
-      }
-      return next;
+  // Opening status from business hours, at the planned time or recomputed every minute
+  const now = useNow();
+  // Planned times are wall-clock times where the search is
+  const searchTimeZone = useMemo(
+    () => (selectedLocation ? getTimeZone(selectedLocation.coordinates) : undefined),
+    [selectedLocation]
+  );
+  const plannedTime = useMemo(
+    () => (openAt ? venueTimeToDate(openAt, searchTimeZone) ?? undefined : undefined),
+    [openAt, searchTimeZone]
+  );
+  const openingStatuses = useMemo(() => {
+    const statuses: Record<string, OpeningStatus> = {};
+    bars.forEach((bar) => {
+      statuses[bar.id] = getBarOpeningStatus(bar, plannedTime ?? now, { planned: !!plannedTime });
     });
-  };
+    return statuses;
+  }, [bars, now, plannedTime]);
 
   const filteredBars = bars
     .filter((bar) => {
       if (selectedType && bar.type !== selectedType) return false;
       if (showFavoritesOnly && !favorites.has(bar.id)) return false;
       if (minRating > 0 && bar.rating < minRating) return false;
-      if (openOnly && !bar.isOpenNow) return false;
+      if (walkableArea && !isInsidePolygon(barCoordinates(bar.coordinates), walkableArea)) return false;
+      if (openOnly && openingStatuses[bar.id].state !== 'open') return false;
+      // Planned time: bars without hours stay, marked as unknown
+      if (plannedTime && openingStatuses[bar.id].state === 'closed') return false;
       return true;
     })
     .sort((a, b) => {
       // Apply custom sorting based on sortBy option
       switch (sortBy) {
         case 'rating':
-          return b.rating - a.rating;
+          // Equal ratings: the one backed by more reviews first
+          return b.rating - a.rating || (b.reviewCount ?? 0) - (a.reviewCount ?? 0);
         
         case 'distance': {
           if (a.distance !== undefined && b.distance !== undefined) {
@@ -130,14 +237,9 @@ const Index = () => {
           return 0;
         }
         
-        case 'reviews': {
-          // Extract review count from description (format: "Type • X reviews")
-          const getReviewCount = (bar: Bar) => {
-            const match = bar.description.match(/(\d+)\s+reviews?/i);
-            return match ? parseInt(match[1]) : 0;
-          };
-          return getReviewCount(b) - getReviewCount(a);
-        }
+        case 'reviews':
+          // Bars whose provider doesn't count reviews go last
+          return (b.reviewCount ?? -1) - (a.reviewCount ?? -1);
         
         case 'price-low':
           return a.priceLevel - b.priceLevel;
@@ -148,16 +250,16 @@ const Index = () => {
         case 'default':
         default: {
           // Default: Prioritize bars with open/closed status
-          const aHasStatus = a.isOpenNow !== undefined;
-          const bHasStatus = b.isOpenNow !== undefined;
+          const aHasStatus = openingStatuses[a.id].state !== 'unknown';
+          const bHasStatus = openingStatuses[b.id].state !== 'unknown';
           
           if (aHasStatus && !bHasStatus) return -1;
           if (!aHasStatus && bHasStatus) return 1;
           
           // Within bars with status, prioritize open bars
           if (aHasStatus && bHasStatus) {
-            if (a.isOpenNow && !b.isOpenNow) return -1;
-            if (!a.isOpenNow && b.isOpenNow) return 1;
+            if (openingStatuses[a.id].state === 'open' && openingStatuses[b.id].state !== 'open') return -1;
+            if (openingStatuses[a.id].state !== 'open' && openingStatuses[b.id].state === 'open') return 1;
           }
           
           // Then sort by distance (closest first)
@@ -171,6 +273,20 @@ const Index = () => {
       }
     });
 
+  // Crawl schedule from the walking times, starting now or at the chosen time
+  const crawlRoute = useCrawlRoute(selectedLocation?.coordinates ?? null, crawl.stops, crawlOpen || showCrawlRoute);
+  const crawlSchedule = useMemo(() => {
+    const legs = crawlRoute.data?.legs;
+    if (!legs || legs.length !== crawl.stops.length) return undefined;
+    const startAt = (crawl.startAt && venueTimeToDate(crawl.startAt, searchTimeZone)) || now;
+    return buildSchedule(startAt, crawl.stops, legs, crawl.getDwellMinutes);
+  }, [crawlRoute.data, crawl.stops, crawl.startAt, crawl.getDwellMinutes, now, searchTimeZone]);
+
+  // Travel times for the list, from the search location
+  const travelTimes = useTravelTimes(userLocation, filteredBars, travelMode, view === 'list');
+
+  const unknownHoursCount = filteredBars.filter((bar) => openingStatuses[bar.id].state === 'unknown').length;
+
   // Show start page if no location is selected
   if (!selectedLocation) {
     return <StartPage onLocationSelected={handleLocationSelected} />;
@@ -200,7 +316,9 @@ const Index = () => {
                 <p className="text-sm text-muted-foreground">
                   {selectedLocation.name || 'Selected location'}
                   {loading && ' • Loading...'}
+                  {refreshing && ' • Updating...'}
                   {usingMockData && ' • Using demo data'}
+                  {!online && ' • Offline'}
                 </p>
               </div>
             </div>
@@ -212,6 +330,16 @@ const Index = () => {
                 onMinRatingChange={setMinRating}
                 openOnly={openOnly}
                 onOpenOnlyChange={setOpenOnly}
+                openAt={openAt}
+                onOpenAtChange={setOpenAt}
+                provider={provider}
+                onProviderChange={handleProviderChange}
+                travelMode={travelMode}
+                onTravelModeChange={handleTravelModeChange}
+                radius={radius}
+                onRadiusChange={setRadius}
+                walkMinutes={walkMinutes}
+                onWalkMinutesChange={setWalkMinutes}
               />
               <Button
                 variant={showFavoritesOnly ? 'default' : 'outline'}
@@ -221,6 +349,11 @@ const Index = () => {
                 <Heart className={`h-4 w-4 mr-2 ${showFavoritesOnly ? 'fill-current' : ''}`} />
                 Favorites ({favorites.size})
               </Button>
+              <Button variant="outline" size="sm" onClick={() => setCrawlOpen(true)}>
+                <Footprints className="h-4 w-4 mr-2" />
+                Crawl ({crawl.stops.length})
+              </Button>
+              <ThemeToggle />
             </div>
           </div>
           
@@ -230,7 +363,7 @@ const Index = () => {
 
       {/* View Toggle */}
       <div className="container mx-auto px-4 py-4">
-        <Tabs value={view} onValueChange={(v) => setView(v as 'map' | 'list')}>
+        <Tabs value={view} onValueChange={(v) => setView(v as ExploreView)}>
           <TabsList className="grid w-full max-w-md grid-cols-2">
             <TabsTrigger value="list" className="flex items-center gap-2">
               <List className="h-4 w-4" />
@@ -247,45 +380,98 @@ const Index = () => {
       {/* Main Content */}
       <main className="container mx-auto px-4 pb-8">
         {/* Location Info Alert */}
-        {userLocation && !error && (
+        {userLocation && !blockingError && (
           <Alert className="mb-4 bg-primary/10 border-primary/20">
             <AlertCircle className="h-4 w-4" />
-            <AlertTitle>Searching within 0.5km radius</AlertTitle>
+            <AlertTitle>
+              {searchArea
+                ? 'Searching the map area'
+                : walkMinutes ? `Searching within a ${walkMinutes}-minute walk` : `Searching within ${formatRadius(radius)} radius`}
+            </AlertTitle>
             <AlertDescription>
-              Showing bars near {selectedLocation.name || `(${userLocation.latitude.toFixed(4)}, ${userLocation.longitude.toFixed(4)})`}
+              {searchArea ? (
+                <>
+                  Showing bars in the part of the map you moved to.{' '}
+                  <Button variant="link" size="sm" className="h-auto p-0" onClick={() => updateExplore({ area: null })}>
+                    Back to {selectedLocation.name || 'your pin'}
+                  </Button>
+                </>
+              ) : (
+                <>Showing bars near {selectedLocation.name || `(${userLocation.latitude.toFixed(4)}, ${userLocation.longitude.toFixed(4)})`}</>
+              )}
+              {walkMinutes && isochrone.isError && (
+                <span className="block text-xs text-muted-foreground mt-1">
+                  Couldn't work out walking times, so this shows every bar a {walkMinutes}-minute walk away as the crow flies.
+                </span>
+              )}
+              {coverage && !coverage.complete && (
+                <span className="block text-xs text-muted-foreground mt-1">
+                  Large area: searched {coverage.tilesQueried} sections, but some dense spots may have more bars than shown.
+                </span>
+              )}
             </AlertDescription>
           </Alert>
         )}
 
-        {/* Error Alert */}
-        {error && (
-          <Alert variant="destructive" className="mb-4">
-            <AlertCircle className="h-4 w-4" />
-            <AlertTitle>Error loading bars</AlertTitle>
+        {/* Planned Time Alert */}
+        {plannedTime && !blockingError && (
+          <Alert className="mb-4 border-accent/40">
+            <CalendarClock className="h-4 w-4" />
+            <AlertTitle>Bars open {format(parse(openAt!, "yyyy-MM-dd'T'HH:mm", new Date()), "EEEE d MMM 'at' HH:mm")}</AlertTitle>
             <AlertDescription>
-              {error}
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => refetch()}
-                className="ml-4"
-              >
-                Try Again
+              {unknownHoursCount > 0 && `${unknownHoursCount} ${unknownHoursCount === 1 ? 'bar has' : 'bars have'} no opening hours and may be closed. `}
+              <Button variant="link" size="sm" className="h-auto p-0" onClick={() => setOpenAt(null)}>
+                Clear time
               </Button>
             </AlertDescription>
           </Alert>
         )}
 
+        {/* Offline / Saved Results Alert */}
+        {(!online || usingCachedData) && !blockingError && (
+          <Alert className="mb-4 border-accent/40">
+            <WifiOff className="h-4 w-4" />
+            <AlertTitle>{online ? 'Showing saved results' : "You're offline"}</AlertTitle>
+            <AlertDescription>
+              {updatedAt
+                ? `Showing bars last updated ${formatDistanceToNow(updatedAt, { addSuffix: true })}.`
+                : 'No saved bars cover this area yet. They will load when you are back online.'}
+              {!updatedAt && provider !== 'mock' && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleProviderChange('mock')}
+                  className="ml-4"
+                >
+                  Use Demo Data
+                </Button>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* Error Panel */}
+        {error && (
+          <ErrorPanel
+            error={error}
+            onRetry={() => refetch()}
+            onSwitchProvider={switchTarget ? () => handleProviderChange(switchTarget.id) : undefined}
+            switchProviderLabel={switchTarget ? `Switch to ${switchTarget.name}` : undefined}
+            onUseCache={canShowSavedResults ? showSavedResults : undefined}
+            onUseDemo={provider !== 'mock' ? () => handleProviderChange('mock') : undefined}
+          />
+        )}
+
         {/* Loading State */}
         {loading && (
           <div className="text-center py-12">
             <div className="h-8 w-8 mx-auto mb-4 border-4 border-primary/20 border-t-primary rounded-full animate-spin" />
-            <p className="text-muted-foreground">Loading bars from Yelp...</p>
+            <p className="text-muted-foreground">Loading bars from {provider === 'all' ? 'all sources' : getProvider(provider)?.name}...</p>
           </div>
         )}
 
         {/* Content */}
-        {!loading && !error && (
+        {!loading && !blockingError && (
           <>
             {view === 'map' ? (
               <div className="h-[calc(100vh-240px)] rounded-lg overflow-hidden">
@@ -296,26 +482,50 @@ const Index = () => {
                   favorites={favorites}
                   userLocation={userLocation}
                   onLocationChange={handleLocationChange}
-                  radius={radius}
+                  radius={searchRadius}
+                  onRadiusChange={walkMinutes ? undefined : setRadius}
+                  walkableArea={walkableArea}
+                  searchArea={searchArea}
+                  onSearchArea={handleSearchArea}
                   routeToBar={routeToBar}
-                  onRouteClose={() => setRouteToBar(null)}
+                  crawlStops={showCrawlRoute ? crawl.stops : undefined}
+                  travelMode={travelMode}
+                  onRouteClose={() => {
+                    setRouteToBar(null);
+                    setShowCrawlRoute(false);
+                  }}
                 />
               </div>
             ) : (
-              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {filteredBars.map((bar) => (
-                  <BarCard
-                    key={bar.id}
-                    bar={bar}
-                    isFavorite={favorites.has(bar.id)}
-                    onToggleFavorite={toggleFavorite}
-                    onClick={() => setSelectedBar(bar)}
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                  {filteredBars.map((bar) => (
+                    <BarCard
+                      key={bar.id}
+                      bar={bar}
+                      isFavorite={favorites.has(bar.id)}
+                      onToggleFavorite={toggleFavorite}
+                      onClick={() => setSelectedBar(bar)}
+                      openingStatus={openingStatuses[bar.id]}
+                      openingAt={plannedTime}
+                      route={travelTimes.data?.[bar.id]}
+                      travelMode={travelMode}
+                    />
+                  ))}
+                </div>
+
+                {hasMore && (
+                  <LoadMoreTrigger
+                    onLoadMore={loadMore}
+                    loading={loadingMore}
+                    loadedCount={bars.length}
+                    total={total}
                   />
-                ))}
-              </div>
+                )}
+              </>
             )}
 
-            {filteredBars.length === 0 && !loading && (
+            {filteredBars.length === 0 && !loading && !error && (
               <div className="text-center py-12">
                 <p className="text-muted-foreground">No bars found matching your filters.</p>
               </div>
@@ -338,15 +548,60 @@ const Index = () => {
               onToggleFavorite={toggleFavorite}
               onClose={() => setSelectedBar(null)}
               userLocation={userLocation}
+              detailsHref={barPagePath(selectedBar, explore)}
+              openingStatus={
+                openingStatuses[selectedBar.id] ??
+                getBarOpeningStatus(selectedBar, plannedTime ?? now, { planned: !!plannedTime })
+              }
+              openingAt={plannedTime}
               onShowRoute={(bar) => {
                 setRouteToBar(bar);
-                setView('map');
-                setSelectedBar(null);
+                setShowCrawlRoute(false);
+                updateExplore({ view: 'map', barId: null });
               }}
+              travelMode={travelMode}
+              inCrawl={crawl.stopIds.has(selectedBar.id)}
+              onToggleCrawl={crawl.toggleStop}
             />
           </div>
         </div>
       )}
+
+      {/* Bar Crawl Planner */}
+      <Sheet open={crawlOpen} onOpenChange={setCrawlOpen}>
+        <SheetContent className="overflow-y-auto">
+          <SheetHeader className="mb-4">
+            <SheetTitle>Bar crawl</SheetTitle>
+            <SheetDescription>Drag stops to change the order. Times are for walking.</SheetDescription>
+          </SheetHeader>
+          <CrawlPlanner
+            stops={crawl.stops}
+            startName={selectedLocation.name}
+            route={crawlRoute.data}
+            routeLoading={crawlRoute.isFetching}
+            routeError={crawlRoute.isError}
+            schedule={crawlSchedule}
+            startAt={crawl.startAt}
+            onStartAtChange={crawl.setStartAt}
+            getDwellMinutes={crawl.getDwellMinutes}
+            onDwellChange={crawl.setDwellMinutes}
+            onMoveStop={crawl.moveStop}
+            onRemoveStop={crawl.toggleStop}
+            onOptimize={crawl.optimize}
+            onClear={crawl.clear}
+            onShowOnMap={() => {
+              setRouteToBar(null);
+              setShowCrawlRoute(true);
+              setCrawlOpen(false);
+              updateExplore({ view: 'map', barId: null });
+            }}
+            onSelectStop={(bar) => {
+              setCrawlOpen(false);
+              setSelectedBar(bar);
+            }}
+          />
+        </SheetContent>
+      </Sheet>
     </div>
   );
 };
@@ -4,6 +4,7 @@ import { Card } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { MapPin, Navigation, Search, Sparkles, TrendingUp } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { config } from '@/config/app';
 
 interface StartPageProps {
   onLocationSelected: (coordinates: { latitude: number; longitude: number }, locationName?: string) => void;
@@ -42,7 +43,7 @@ const StartPage = ({ onLocationSelected }: StartPageProps) => {
         // Try to get city name via reverse geocoding
         try {
           const response = await fetch(
-            `https://nominatim.openstreetmap.org/reverse?format=json&lat=${latitude}&lon=${longitude}&zoom=10`
+            `${config.services.nominatimUrl}/reverse?format=json&lat=${latitude}&lon=${longitude}&zoom=10`
           );
           const data = await response.json();
           const cityName = data.address?.city || data.address?.town || data.address?.village || data.address?.county || 'Your Location';
@@ -96,7 +97,7 @@ const StartPage = ({ onLocationSelected }: StartPageProps) => {
     try {
       // Using OpenStreetMap's Nominatim API (free, no API key needed)
       const response = await fetch(
-        `https://nominatim.openstreetmap.org/search?q=${encodeURIComponent(searchQuery)}&format=json&limit=5&addressdetails=1`,
+        `${config.services.nominatimUrl}/search?q=${encodeURIComponent(searchQuery)}&format=json&limit=5&addressdetails=1`,
         {
           headers: {
             'Accept': 'application/json',
@@ -0,0 +1,156 @@
+import { QueryClient, QueryKey, hashKey } from '@tanstack/react-query';
+import { config } from '../config/app';
+import { Coordinates } from '../hooks/use-geolocation';
+import { getDistanceInMeters } from '../lib/geo';
+import type { ProviderSelection } from './providers';
+
+const DB_NAME = 'baradvisor';
+const DB_VERSION = 1;
+const STORE_NAME = 'bar-searches';
+const QUERY_ROOT = 'bars';
+
+interface CacheEntry {
+  hash: string;
+  queryKey: QueryKey;
+  data: unknown;
+  updatedAt: number;
+}
+
+/**
+ * Builds the React Query key for a bar search. Coordinates are rounded so
+ * nearby searches (e.g. a small pin drag) share one cache entry.
+ */
+export function getBarsQueryKey(
+  provider: ProviderSelection,
+  coordinates: Coordinates | null,
+  radius: number,
+  exhaustive: boolean
+): QueryKey {
+  const precision = config.cache.coordinatePrecision;
+  return [
+    QUERY_ROOT,
+    provider,
+    coordinates ? Number(coordinates.latitude.toFixed(precision)) : null,
+    coordinates ? Number(coordinates.longitude.toFixed(precision)) : null,
+    radius,
+    exhaustive,
+  ];
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'hash' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Runs a single request against the cache store
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Loads non-expired bar searches from IndexedDB into the query client and
+ * removes expired ones. Restored entries keep their original timestamp, so
+ * React Query serves them immediately and refetches them once stale.
+ */
+export async function restoreBarCache(queryClient: QueryClient): Promise<void> {
+  if (typeof indexedDB === 'undefined') return;
+
+  try {
+    const entries = await withStore<CacheEntry[]>('readonly', (store) => store.getAll());
+    const now = Date.now();
+
+    for (const entry of entries) {
+      if (now - entry.updatedAt > config.cache.maxAge) {
+        await withStore('readwrite', (store) => store.delete(entry.hash));
+        continue;
+      }
+      queryClient.setQueryData(entry.queryKey, entry.data, { updatedAt: entry.updatedAt });
+    }
+
+    console.log(`💾 Restored ${queryClient.getQueryCache().findAll({ queryKey: [QUERY_ROOT] }).length} cached bar searches`);
+  } catch (error) {
+    console.warn('Could not restore bar cache:', error);
+  }
+}
+
+/**
+ * Writes every successful bar search to IndexedDB as it lands in the query cache
+ * Returns a function that stops persisting
+ */
+export function persistBarCache(queryClient: QueryClient): () => void {
+  if (typeof indexedDB === 'undefined') return () => {};
+
+  return queryClient.getQueryCache().subscribe((event) => {
+    const { query } = event;
+    // Manual updates come from restoreBarCache and are already stored
+    if (event.type !== 'updated' || event.action.type !== 'success' || event.action.manual) return;
+    if (query.queryKey[0] !== QUERY_ROOT || query.state.data === undefined) return;
+
+    const entry: CacheEntry = {
+      hash: hashKey(query.queryKey),
+      queryKey: query.queryKey,
+      data: query.state.data,
+      updatedAt: query.state.dataUpdatedAt,
+    };
+
+    withStore('readwrite', (store) => store.put(entry)).catch((error) => {
+      console.warn('Could not persist bar search:', error);
+    });
+  });
+}
+
+export interface CachedSearch<T> {
+  data: T;
+  updatedAt: number;
+  coordinates: Coordinates;
+  radius: number;
+}
+
+/**
+ * Finds the most recent cached search from the same provider (or from any
+ * provider when null) whose area contains the given location. Used to show
+ * saved bars while offline or when the provider fails.
+ */
+export function findCachedSearch<T>(
+  queryClient: QueryClient,
+  provider: ProviderSelection | null,
+  coordinates: Coordinates
+): CachedSearch<T> | null {
+  let best: CachedSearch<T> | null = null;
+  const queryKey = provider ? [QUERY_ROOT, provider] : [QUERY_ROOT];
+
+  for (const query of queryClient.getQueryCache().findAll({ queryKey })) {
+    const [, , latitude, longitude, radius] = query.queryKey as [string, string, number | null, number | null, number];
+    if (query.state.data === undefined || latitude === null || longitude === null) continue;
+
+    const center = { latitude, longitude };
+    if (getDistanceInMeters(center, coordinates) > radius) continue;
+
+    if (!best || query.state.dataUpdatedAt > best.updatedAt) {
+      best = { data: query.state.data as T, updatedAt: query.state.dataUpdatedAt, coordinates: center, radius };
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,39 @@
+import { Bar, ProviderId } from '../data/bars';
+import { VenueProvider, getLiveProviders, getProvider } from './providers';
+
+export interface VenueDetails {
+  bar: Bar;
+  provider: ProviderId; // Provider the details came from
+}
+
+/**
+ * Loads the full details of a bar. Links from the app name the provider; for
+ * links without one, every provider that supports details is asked in turn.
+ */
+export async function fetchVenueDetails(
+  barId: string,
+  source?: ProviderId,
+  signal?: AbortSignal
+): Promise<VenueDetails | null> {
+  const candidates = (source ? [getProvider(source)] : [...getLiveProviders(), getProvider('mock')]).filter(
+    (provider): provider is VenueProvider => !!provider && provider.capabilities.details && provider.isConfigured()
+  );
+
+  for (const provider of candidates) {
+    const bar = await provider.fetchBarDetails(barId, signal);
+    if (bar) {
+      return { bar: { ...bar, sources: bar.sources ?? [provider.id] }, provider: provider.id };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Picks the provider to read a bar's reviews from, with the bar's id there
+ */
+export function getReviewSource(bar: Bar): { provider: ProviderId; barId: string } | null {
+  const provider = bar.sources?.find((id) => getProvider(id)?.capabilities.reviews);
+  if (!provider) return null;
+  return { provider, barId: bar.sourceIds?.[provider] ?? bar.id };
+}
@@ -1,64 +1,157 @@
+import { config } from '../config/app';
+import type { ProviderId } from '../data/bars';
+import { getJson, getQuotaStatus, QuotaStatus } from './http';
+import { describeProviderError, toProviderError } from './errors';
+import { VenueProvider, getProviders } from './providers';
+import { getRoutingHealthUrl } from './routing';
+
+/**
+ * Health checks for the venue providers and the map services, shown on the
+ * /diagnostics page. Keys are only ever reported as present or missing.
+ */
+
+export type CheckStatus = 'ok' | 'warning' | 'error' | 'skipped';
+
+export interface ProviderHealth {
+  provider: ProviderId;
+  name: string;
+  status: CheckStatus;
+  enabled: boolean; // Listed in VITE_ENABLED_PROVIDERS
+  keyPresent: boolean | null; // null when the proxy couldn't tell us
+  authOk: boolean | null; // null when no request was made
+  latencyMs?: number;
+  quota?: QuotaStatus;
+  sampleCount?: number;
+  message: string;
+}
+
+export interface ServiceHealth {
+  name: string;
+  url: string;
+  status: CheckStatus;
+  latencyMs?: number;
+  message: string;
+}
+
+export interface DiagnosticsReport {
+  proxyReachable: boolean;
+  providers: ProviderHealth[];
+  services: ServiceHealth[];
+  checkedAt: number;
+}
+
+interface ProxyHealth {
+  status: string;
+  providers: Record<string, { configured: boolean }>;
+}
+
+// Probe searches use a fixed, busy location so a working key always finds bars
+const PROBE_RADIUS = 1000;
+const PROBE_LIMIT = 5;
+
+/**
+ * Asks the API proxy which providers it has keys for
+ */
+async function fetchProxyHealth(): Promise<ProxyHealth | null> {
+  try {
+    return await getJson<ProxyHealth>(`${config.apiBaseUrl}/health`, { retries: 0 });
+  } catch (error) {
+    console.warn('API proxy health check failed:', error);
+    return null;
+  }
+}
+
 /**
- * Diagnostic tool to test Foursquare API connection
- * Run this in browser console to test your API key
+ * Runs a small search against one provider and reports what happened
  */
+export async function checkProvider(provider: VenueProvider, proxy: ProxyHealth | null): Promise<ProviderHealth> {
+  const enabled = provider.isConfigured();
+  const keyPresent = proxy ? !!proxy.providers[provider.id]?.configured : null;
+  const base = { provider: provider.id, name: provider.name, enabled, keyPresent };
 
-const API_KEY = import.meta.env.VITE_FOURSQUARE_API_KEY;
-
-console.log('🔍 Foursquare API Diagnostic Tool');
-console.log('==================================');
-console.log('API Key loaded:', API_KEY ? '✅ Yes' : '❌ No');
-console.log('API Key length:', API_KEY?.length || 0);
-console.log('API Key preview:', API_KEY ? `${API_KEY.slice(0, 10)}...${API_KEY.slice(-4)}` : 'N/A');
-console.log('Has spaces:', API_KEY?.includes(' ') ? '⚠️ Yes (PROBLEM!)' : '✅ No');
-console.log('Has newlines:', API_KEY?.includes('\n') ? '⚠️ Yes (PROBLEM!)' : '✅ No');
-
-// Test API call
-export async function testFoursquareConnection() {
-  console.log('\n🧪 Testing Foursquare API...');
-  
-  if (!API_KEY) {
-    console.error('❌ No API key found!');
-    return;
+  if (!enabled) {
+    return { ...base, status: 'skipped', authOk: null, message: `Not enabled. Add ${provider.id} to VITE_ENABLED_PROVIDERS.` };
+  }
+  if (keyPresent === false) {
+    return { ...base, status: 'error', authOk: null, message: 'The API proxy has no key for this provider.' };
   }
 
+  const startedAt = performance.now();
   try {
-    const testUrl = 'https://places-api.foursquare.com/places/search?ll=60.3913,5.3221&limit=1';
-    
-    console.log('📡 Making request to:', testUrl);
-    console.log('🔑 Using API key:', `${API_KEY.slice(0, 10)}...`);
-    
-    const response = await fetch(testUrl, {
-      headers: {
-        'Accept': 'application/json',
-        'Authorization': `Bearer ${API_KEY.trim()}`, // New 2025 format
-        'X-Places-Api-Version': '2025-06-17', // Required version header
-      },
+    const { bars } = await provider.searchBars({
+      coordinates: config.bergenCenter,
+      radius: PROBE_RADIUS,
+      limit: PROBE_LIMIT,
+      bypassCache: true, // A cached answer would report stale latency, auth and quota
     });
+    const latencyMs = Math.round(performance.now() - startedAt);
+    const quota = getQuotaStatus(provider.id);
+    const lowQuota = quota?.remaining !== undefined && quota.limit !== undefined && quota.remaining < quota.limit * 0.1;
 
-    console.log('📊 Response status:', response.status);
-    console.log('📊 Response headers:', Object.fromEntries(response.headers.entries()));
-    
-    const data = await response.json();
-    
-    if (response.ok) {
-      console.log('✅ SUCCESS! API is working correctly');
-      console.log('📍 Found places:', data.results?.length || 0);
-      return data;
-    } else {
-      console.error('❌ API Error:', data);
-      console.error('💡 Common fixes:');
-      console.error('   1. Check your API key on https://foursquare.com/developers/apps');
-      console.error('   2. Make sure the project is active');
-      console.error('   3. Try creating a new API key');
-      console.error('   4. Ensure no extra spaces in .env file');
-      return data;
-    }
+    return {
+      ...base,
+      status: bars.length === 0 || lowQuota ? 'warning' : 'ok',
+      authOk: true,
+      latencyMs,
+      quota,
+      sampleCount: bars.length,
+      message:
+        bars.length === 0
+          ? 'Search worked but returned no bars.'
+          : lowQuota
+            ? 'Less than 10% of the quota left.'
+            : 'Working.',
+    };
   } catch (error) {
-    console.error('❌ Connection Error:', error);
-    return null;
+    const latencyMs = Math.round(performance.now() - startedAt);
+    const failure = toProviderError(error, provider.id);
+    return {
+      ...base,
+      status: 'error',
+      authOk: failure.kind === 'auth' || failure.kind === 'missing_key' ? false : null,
+      latencyMs,
+      quota: getQuotaStatus(provider.id),
+      message: `${describeProviderError(failure, provider.name).title}${failure.status ? ` (HTTP ${failure.status})` : ''}`,
+    };
+  }
+}
+
+/**
+ * Checks that a public map service answers
+ */
+export async function checkService(name: string, url: string): Promise<ServiceHealth> {
+  const startedAt = performance.now();
+  try {
+    await getJson(url, { retries: 0 });
+    return { name, url, status: 'ok', latencyMs: Math.round(performance.now() - startedAt), message: 'Reachable.' };
+  } catch (error) {
+    return {
+      name,
+      url,
+      status: 'error',
+      latencyMs: Math.round(performance.now() - startedAt),
+      message: error instanceof Error ? error.message : 'Unreachable.',
+    };
   }
 }
 
-// Auto-run diagnostics
-testFoursquareConnection();
+/**
+ * Checks every registered live provider plus geocoding and routing
+ */
+export async function runDiagnostics(): Promise<DiagnosticsReport> {
+  const proxy = await fetchProxyHealth();
+
+  const [providers, services] = await Promise.all([
+    Promise.all(
+      getProviders()
+        .filter((provider) => provider.id !== 'mock')
+        .map((provider) => checkProvider(provider, proxy))
+    ),
+    Promise.all([
+      checkService('Nominatim (geocoding)', `${config.services.nominatimUrl}/status?format=json`),
+      checkService(`${config.routing.engine === 'valhalla' ? 'Valhalla' : 'OSRM'} (directions)`, getRoutingHealthUrl()),
+    ]),
+  ]);
+
+  return { proxyReachable: !!proxy, providers, services, checkedAt: Date.now() };
+}
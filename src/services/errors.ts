@@ -0,0 +1,141 @@
+import type { ProviderId } from '../data/bars';
+import { HttpError, isAbortError } from './http';
+
+/**
+ * Kinds of failure a venue search can end in, each with its own message and
+ * recovery actions in the UI
+ */
+export type ProviderErrorKind =
+  | 'missing_key' // The proxy (or the app config) has no key for the provider
+  | 'auth' // The provider rejected the key
+  | 'quota' // Rate limit or daily quota exceeded
+  | 'network' // The browser couldn't reach the proxy
+  | 'no_results' // The search worked but found no bars
+  | 'outage' // The provider or the proxy is failing
+  | 'unknown';
+
+export type RecoveryAction = 'retry' | 'switch_provider' | 'use_cache' | 'use_demo';
+
+export class ProviderError extends Error {
+  constructor(
+    public readonly kind: ProviderErrorKind,
+    message: string,
+    public readonly provider?: ProviderId,
+    public readonly status?: number,
+    public readonly retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+export interface ErrorDescription {
+  title: string;
+  message: string;
+  actions: RecoveryAction[]; // Most useful first
+}
+
+/**
+ * Reads the error code from a JSON error body, as sent by our proxy
+ */
+function proxyErrorCode(body: string): string | undefined {
+  try {
+    const parsed = JSON.parse(body);
+    return typeof parsed?.error === 'string' ? parsed.error : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Classifies any error thrown while searching a provider
+ */
+export function toProviderError(error: unknown, provider?: ProviderId): ProviderError {
+  if (error instanceof ProviderError) {
+    return error.provider || !provider
+      ? error
+      : new ProviderError(error.kind, error.message, provider, error.status, error.retryAfterSeconds);
+  }
+
+  if (error instanceof HttpError) {
+    const code = proxyErrorCode(error.body);
+    const retryAfter = Number(error.headers.get('retry-after')) || undefined;
+
+    if (code === 'missing_key') {
+      return new ProviderError('missing_key', error.message, provider, error.status);
+    }
+    if (error.status === 401 || error.status === 403) {
+      return new ProviderError('auth', error.message, provider, error.status);
+    }
+    if (error.status === 429) {
+      return new ProviderError('quota', error.message, provider, error.status, retryAfter);
+    }
+    if (error.status >= 500) {
+      return new ProviderError('outage', error.message, provider, error.status, retryAfter);
+    }
+    return new ProviderError('unknown', error.message, provider, error.status);
+  }
+
+  // fetch rejects with a TypeError when the request never got a response
+  if (error instanceof TypeError || (typeof navigator !== 'undefined' && !navigator.onLine)) {
+    return new ProviderError('network', error instanceof Error ? error.message : 'Network error', provider);
+  }
+
+  if (isAbortError(error)) {
+    return new ProviderError('network', 'The request was cancelled', provider);
+  }
+
+  return new ProviderError('unknown', error instanceof Error ? error.message : String(error), provider);
+}
+
+/**
+ * Turns an error into text and recovery actions for the user
+ */
+export function describeProviderError(error: ProviderError, providerName: string = 'The bar provider'): ErrorDescription {
+  switch (error.kind) {
+    case 'missing_key':
+      return {
+        title: `${providerName} isn't set up`,
+        message: `There is no API key for ${providerName}. Add it to the server's .env file, or pick another data source.`,
+        actions: ['switch_provider', 'use_cache', 'use_demo'],
+      };
+    case 'auth':
+      return {
+        title: `${providerName} rejected the API key`,
+        message: 'The API key is invalid or has been revoked. Check the key configured on the server.',
+        actions: ['switch_provider', 'use_cache', 'use_demo'],
+      };
+    case 'quota':
+      return {
+        title: 'Too many requests',
+        message: error.retryAfterSeconds
+          ? `${providerName} is limiting requests. Try again in ${error.retryAfterSeconds} seconds.`
+          : `${providerName} is limiting requests or the daily quota is used up. Try again in a little while.`,
+        actions: ['retry', 'use_cache', 'switch_provider'],
+      };
+    case 'network':
+      return {
+        title: "Can't reach the server",
+        message: 'Check your internet connection and try again.',
+        actions: ['retry', 'use_cache'],
+      };
+    case 'no_results':
+      return {
+        title: 'No bars found here',
+        message: 'Try a larger search radius, another location or another data source.',
+        actions: ['switch_provider'],
+      };
+    case 'outage':
+      return {
+        title: `${providerName} is having problems`,
+        message: 'The service is temporarily unavailable. Your search should work again shortly.',
+        actions: ['retry', 'use_cache', 'switch_provider'],
+      };
+    default:
+      return {
+        title: 'Something went wrong',
+        message: 'The bars could not be loaded.',
+        actions: ['retry', 'switch_provider', 'use_demo'],
+      };
+  }
+}
@@ -1,22 +1,16 @@
 import { Bar, BarType } from '../data/bars';
+import { Coordinates } from '../hooks/use-geolocation';
+import { config } from '../config/app';
+import type { VenueProvider, VenueSearchParams, VenueSearchResult } from './providers';
+import { HttpError, getJson, isAbortError } from './http';
+import { ProviderError, toProviderError } from './errors';
 
-const FOURSQUARE_API_KEY = import.meta.env.VITE_FOURSQUARE_API_KEY;
 // Updated to new Foursquare API (2025)
-// Use proxy in development to avoid CORS issues
-const FOURSQUARE_API_URL = import.meta.env.DEV 
-  ? '/api/foursquare/places/search' 
-  : 'https://places-api.foursquare.com/places/search';
-const FOURSQUARE_PLACES_URL = import.meta.env.DEV
-  ? '/api/foursquare/places'
-  : 'https://places-api.foursquare.com/places';
+// Requests go through our API proxy, which adds the Foursquare API key server-side
+const FOURSQUARE_API_URL = `${config.apiBaseUrl}/foursquare/places/search`;
+const FOURSQUARE_PLACES_URL = `${config.apiBaseUrl}/foursquare/places`;
 const FOURSQUARE_API_VERSION = '2025-06-17';
 
-// Bergen, Norway coordinates
-const BERGEN_COORDINATES = {
-  latitude: 60.3913,
-  longitude: 5.3221,
-};
-
 // Map Foursquare categories to our BarType
 const categoryToBarType: Record<string, BarType> = {
   'cocktail': 'Cocktail',
@@ -113,98 +107,127 @@ function convertToBar(place: FoursquarePlace): Bar {
     // Default values for premium fields (rating, photos, description, price)
     rating: 4.0, // Default rating since it's a premium field
     image: 'https://images.unsplash.com/photo-1514362545857-3bc16c4c7d1b?w=800&h=600&fit=crop', // Fallback image
-    description: `${place.categories[0]?.name || 'Bar'} in ${place.location.locality || 'Bergen'}`,
+    description: `${place.categories[0]?.name || 'Bar'} in ${place.location.locality || 'the area'}`,
     priceLevel: 2, // Default to moderate pricing
+    distance: place.distance,
+    photos: place.photos?.map((photo) => `${photo.prefix}original${photo.suffix}`),
+    providerUrl: `https://foursquare.com/v/${place.fsq_place_id}`,
+    source: 'foursquare',
+    // No reviewCount: tips and ratings are premium fields
   };
 }
 
 /**
- * Fetches bars from Foursquare API in Bergen area
+ * Checks whether Foursquare is enabled (the proxy holds the key)
  */
-export async function fetchBarsFromFoursquare(
-  radius: number = 5000, // 5km radius
-  limit: number = 50
-): Promise<Bar[]> {
-  if (!FOURSQUARE_API_KEY || FOURSQUARE_API_KEY === 'your_api_key_here') {
-    throw new Error(
-      'Foursquare API key is not configured. Please add VITE_FOURSQUARE_API_KEY to your .env file.'
+export function isFoursquareConfigured(): boolean {
+  return config.enabledProviders.includes('foursquare');
+}
+
+/**
+ * Searches Foursquare for bars around the given coordinates
+ */
+async function searchFoursquare({
+  coordinates,
+  radius,
+  limit = 50,
+  signal,
+  bypassCache,
+}: VenueSearchParams): Promise<VenueSearchResult> {
+  if (!isFoursquareConfigured()) {
+    throw new ProviderError(
+      'missing_key',
+      'Foursquare is not enabled. Please add foursquare to VITE_ENABLED_PROVIDERS in your .env file.',
+      'foursquare'
     );
   }
 
   try {
     const params = new URLSearchParams({
-      ll: `${BERGEN_COORDINATES.latitude},${BERGEN_COORDINATES.longitude}`,
-      radius: radius.toString(),
+      ll: `${coordinates.latitude},${coordinates.longitude}`,
+      radius: Math.min(radius, 100000).toString(), // Foursquare max is 100km
       categories: '13003,13004,13032,13033,13034,13035,13064,13065', // Bar-related categories
       // Only request free tier fields to avoid premium charges
       fields: 'fsq_place_id,name,categories,latitude,longitude,location,distance',
-      limit: limit.toString(),
+      limit: Math.min(limit, 50).toString(), // Foursquare max is 50 per request
     });
 
     console.log('🔍 Fetching from:', `${FOURSQUARE_API_URL}?${params}`);
-    console.log('🔑 Using auth header:', `Bearer ${FOURSQUARE_API_KEY.trim().slice(0, 10)}...`);
     
-    const response = await fetch(`${FOURSQUARE_API_URL}?${params}`, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'Authorization': `Bearer ${FOURSQUARE_API_KEY.trim()}`, // New format: Bearer token
-        'X-Places-Api-Version': FOURSQUARE_API_VERSION, // Required version header
-      },
+    const data = await getJson<FoursquareResponse>(`${FOURSQUARE_API_URL}?${params}`, {
+      budget: 'foursquare',
+      signal,
+      bypassCache,
+      headers: { 'X-Places-Api-Version': FOURSQUARE_API_VERSION }, // Required version header
     });
-
-    console.log('📡 Response status:', response.status);
-    console.log('📡 Response headers:', Object.fromEntries(response.headers.entries()));
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('❌ API Error Response:', errorText);
-      throw new Error(`Foursquare API error: ${response.status} - ${errorText}`);
-    }
-
-    const data: FoursquareResponse = await response.json();
     
     if (!data.results || data.results.length === 0) {
       console.warn('No bars found in the specified area');
-      return [];
+      return { bars: [] };
     }
 
-    return data.results.map(convertToBar);
+    return { bars: data.results.map(convertToBar) };
   } catch (error) {
-    console.error('Error fetching bars from Foursquare:', error);
+    if (!isAbortError(error)) {
+      console.error('Error fetching bars from Foursquare:', error);
+    }
     throw error;
   }
 }
 
 /**
- * Fetches detailed information about a specific bar
+ * Fetches bars from Foursquare API around the given location
+ */
+export async function fetchBarsFromFoursquare(
+  userCoordinates: Coordinates,
+  radius: number = 5000, // 5km radius
+  limit: number = 50
+): Promise<Bar[]> {
+  const { bars } = await searchFoursquare({ coordinates: userCoordinates, radius, limit });
+  return bars;
+}
+
+/**
+ * Fetches detailed information about a specific bar, or null if Foursquare doesn't know it
  */
-export async function fetchBarDetails(barId: string): Promise<Bar | null> {
-  if (!FOURSQUARE_API_KEY || FOURSQUARE_API_KEY === 'your_api_key_here') {
-    throw new Error('Foursquare API key is not configured');
+export async function fetchBarDetails(barId: string, signal?: AbortSignal): Promise<Bar | null> {
+  if (!isFoursquareConfigured()) {
+    throw new ProviderError('missing_key', 'Foursquare is not enabled', 'foursquare');
   }
 
   try {
-    const response = await fetch(
-      `${FOURSQUARE_PLACES_URL}/${barId}?fields=fsq_place_id,name,categories,latitude,longitude,location`,
+    const place = await getJson<FoursquarePlace>(
+      `${FOURSQUARE_PLACES_URL}/${encodeURIComponent(barId)}?fields=fsq_place_id,name,categories,latitude,longitude,location`,
       {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-          'Authorization': `Bearer ${FOURSQUARE_API_KEY.trim()}`, // New format: Bearer token
-          'X-Places-Api-Version': FOURSQUARE_API_VERSION, // Required version header
-        },
+        budget: 'foursquare',
+        signal,
+        headers: { 'X-Places-Api-Version': FOURSQUARE_API_VERSION }, // Required version header
       }
     );
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch bar details: ${response.status}`);
-    }
-
-    const place: FoursquarePlace = await response.json();
     return convertToBar(place);
   } catch (error) {
+    if (isAbortError(error)) throw error;
+    if (error instanceof HttpError && error.status === 404) return null;
     console.error('Error fetching bar details:', error);
-    return null;
+    throw toProviderError(error, 'foursquare');
   }
 }
+
+export const foursquareProvider: VenueProvider = {
+  id: 'foursquare',
+  name: 'Foursquare',
+  capabilities: {
+    details: true,
+    reviews: false,
+    ratings: false, // Premium field, not requested
+    photos: false, // Premium field, not requested
+    businessHours: false,
+    maxRadius: 100000,
+    maxLimit: 50,
+    maxResults: 50, // Search paginates by cursor, which we don't follow
+  },
+  isConfigured: isFoursquareConfigured,
+  searchBars: searchFoursquare,
+  fetchBarDetails,
+  fetchBarReviews: async () => ({ reviews: [], total: 0 }),
+};
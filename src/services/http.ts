@@ -0,0 +1,221 @@
+import { config } from '../config/app';
+
+/**
+ * Shared HTTP client for the venue services. Every request can be cancelled
+ * with an AbortSignal, is retried with exponential backoff on 429 and 5xx
+ * responses and waits for the provider's rate budget before it is sent.
+ */
+
+export class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly body: string,
+    public readonly headers: Headers,
+    message: string
+  ) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export interface RequestOptions {
+  budget?: string; // Rate budget the request counts against, usually the provider id
+  signal?: AbortSignal;
+  headers?: Record<string, string>;
+  retries?: number;
+  bypassCache?: boolean; // Ask the API proxy for a live response instead of a cached one
+}
+
+interface Budget {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Rate limit state reported by a provider in its response headers
+ */
+export interface QuotaStatus {
+  remaining?: number;
+  limit?: number;
+  resetsAt?: string;
+  checkedAt: number;
+}
+
+const budgets = new Map<string, Budget>();
+const quotas = new Map<string, QuotaStatus>();
+
+function numberHeader(headers: Headers, ...names: string[]): number | undefined {
+  for (const name of names) {
+    const value = headers.get(name);
+    if (value !== null && value !== '' && !Number.isNaN(Number(value))) return Number(value);
+  }
+  return undefined;
+}
+
+/**
+ * Remembers the quota headers of the latest response for a budget
+ * (Yelp sends RateLimit-*, Foursquare X-RateLimit-*)
+ */
+function recordQuota(budget: string, headers: Headers): void {
+  const remaining = numberHeader(headers, 'ratelimit-remaining', 'x-ratelimit-remaining');
+  const limit = numberHeader(headers, 'ratelimit-dailylimit', 'ratelimit-limit', 'x-ratelimit-limit');
+  if (remaining === undefined && limit === undefined) return;
+
+  quotas.set(budget, {
+    remaining,
+    limit,
+    resetsAt: headers.get('ratelimit-resettime') ?? headers.get('x-ratelimit-reset') ?? undefined,
+    checkedAt: Date.now(),
+  });
+}
+
+/**
+ * Returns the latest quota reported for a budget, if the provider sends one
+ */
+export function getQuotaStatus(budget: string): QuotaStatus | undefined {
+  return quotas.get(budget);
+}
+
+/**
+ * Checks whether an error came from a cancelled request
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function abortError(): DOMException {
+  return new DOMException('The request was cancelled', 'AbortError');
+}
+
+/**
+ * Resolves after the given time, or rejects as soon as the signal aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Takes a token from the named budget, waiting until one is available
+ */
+async function takeBudget(name: string, signal?: AbortSignal): Promise<void> {
+  const { capacity, refillPerSecond } =
+    config.http.rateBudgets[name as keyof typeof config.http.rateBudgets] ?? config.http.defaultRateBudget;
+
+  for (;;) {
+    const now = Date.now();
+    const budget = budgets.get(name) ?? { tokens: capacity, updatedAt: now };
+    budget.tokens = Math.min(capacity, budget.tokens + ((now - budget.updatedAt) / 1000) * refillPerSecond);
+    budget.updatedAt = now;
+    budgets.set(name, budget);
+
+    if (budget.tokens >= 1) {
+      budget.tokens -= 1;
+      return;
+    }
+
+    await sleep(((1 - budget.tokens) / refillPerSecond) * 1000, signal);
+  }
+}
+
+/**
+ * Whether a failed response may succeed when repeated. The proxy answers
+ * 503 missing_key when it has no key for the provider, which retrying won't fix.
+ */
+async function isRetryable(response: Response): Promise<boolean> {
+  if (response.status === 503) {
+    const body = await response.clone().text();
+    return !body.includes('missing_key');
+  }
+  return response.status === 429 || response.status >= 500;
+}
+
+/**
+ * Delay before the given retry attempt, honouring a Retry-After header
+ */
+function retryDelay(attempt: number, response?: Response): number {
+  const retryAfter = Number(response?.headers.get('retry-after'));
+  if (retryAfter > 0) {
+    return Math.min(retryAfter * 1000, config.http.maxBackoffMs);
+  }
+
+  const backoff = config.http.baseBackoffMs * 2 ** attempt;
+  const jitter = Math.random() * config.http.baseBackoffMs;
+  return Math.min(backoff + jitter, config.http.maxBackoffMs);
+}
+
+/**
+ * Sends a GET request, retrying as configured, and returns the successful response.
+ * Throws an HttpError for non-2xx responses that are not (or no longer) retried.
+ */
+async function send(url: string, accept: string, options: RequestOptions): Promise<Response> {
+  const { budget, signal, headers, retries = config.http.maxRetries, bypassCache = false } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    if (budget) {
+      await takeBudget(budget, signal);
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'GET',
+        headers: { Accept: accept, ...(bypassCache && { 'Cache-Control': 'no-cache' }), ...headers },
+        signal,
+      });
+    } catch (error) {
+      // Network failures are retried too, cancellations are not
+      if (isAbortError(error) || attempt >= retries) throw error;
+      await sleep(retryDelay(attempt), signal);
+      continue;
+    }
+
+    if (budget) {
+      recordQuota(budget, response.headers);
+    }
+
+    if (response.ok) {
+      return response;
+    }
+
+    if (attempt < retries && (await isRetryable(response))) {
+      const delay = retryDelay(attempt, response);
+      console.warn(`⏳ ${response.status} from ${budget ?? url}, retrying in ${Math.round(delay)}ms`);
+      await sleep(delay, signal);
+      continue;
+    }
+
+    const body = await response.text();
+    throw new HttpError(response.status, body, response.headers, `${budget ?? 'HTTP'} request failed: ${response.status} - ${body}`);
+  }
+}
+
+/**
+ * Sends a GET request and parses the JSON response
+ */
+export async function getJson<T>(url: string, options: RequestOptions = {}): Promise<T> {
+  const response = await send(url, 'application/json', options);
+  return response.json();
+}
+
+/**
+ * Sends a GET request for binary content, e.g. a map tile
+ */
+export async function getBlob(url: string, options: RequestOptions = {}): Promise<Blob> {
+  const response = await send(url, '*/*', options);
+  return response.blob();
+}
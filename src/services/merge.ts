@@ -0,0 +1,192 @@
+import { Bar } from '../data/bars';
+import { config } from '../config/app';
+import { getDistanceInMeters, barCoordinates } from '../lib/geo';
+import type { ProviderCapabilities, ProviderId } from './providers';
+
+export interface ProviderResults {
+  provider: ProviderId;
+  capabilities: ProviderCapabilities;
+  bars: Bar[];
+}
+
+type MergeableField =
+  | 'name'
+  | 'type'
+  | 'address'
+  | 'rating'
+  | 'reviewCount'
+  | 'image'
+  | 'description'
+  | 'priceLevel'
+  | 'phone'
+  | 'displayPhone'
+  | 'distance'
+  | 'categories'
+  | 'businessHours'
+  | 'isOpenNow'
+  | 'photos'
+  | 'transactions'
+  | 'providerUrl';
+
+// Preferred provider order per field; the first provider that has a value wins
+const FIELD_PRIORITY: Record<MergeableField, ProviderId[]> = {
+  name: ['yelp', 'foursquare', 'mock'],
+  type: ['yelp', 'foursquare', 'mock'],
+  address: ['yelp', 'foursquare', 'mock'],
+  rating: ['yelp', 'foursquare', 'mock'],
+  reviewCount: ['yelp', 'foursquare', 'mock'],
+  image: ['yelp', 'mock'], // Foursquare photos are a premium field the app doesn't request
+  description: ['yelp', 'foursquare', 'mock'],
+  priceLevel: ['yelp', 'foursquare', 'mock'],
+  phone: ['yelp', 'foursquare', 'mock'],
+  displayPhone: ['yelp', 'foursquare', 'mock'],
+  distance: ['yelp', 'foursquare', 'mock'],
+  categories: ['yelp', 'foursquare', 'mock'],
+  businessHours: ['yelp', 'foursquare', 'mock'],
+  isOpenNow: ['yelp', 'foursquare', 'mock'],
+  photos: ['yelp', 'mock'],
+  transactions: ['yelp', 'foursquare', 'mock'],
+  providerUrl: ['yelp', 'foursquare', 'mock'],
+};
+
+// Fields a provider only fills with placeholders unless it has the capability
+const FIELD_CAPABILITY: Partial<Record<MergeableField, keyof ProviderCapabilities>> = {
+  rating: 'ratings',
+  reviewCount: 'ratings',
+  image: 'photos',
+  businessHours: 'businessHours',
+  isOpenNow: 'businessHours',
+  photos: 'photos',
+};
+
+interface VenueGroup {
+  listings: Array<{ provider: ProviderId; capabilities: ProviderCapabilities; bar: Bar }>;
+}
+
+/**
+ * Normalizes a venue name for comparison: lowercase, no accents or punctuation
+ */
+function normalizeName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[øœ]/g, 'o')
+    .replace(/æ/g, 'ae')
+    .replace(/&/g, ' og ')
+    .replace(/[^a-z0-9 ]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function bigrams(value: string): string[] {
+  const compact = value.replace(/ /g, '');
+  const result: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) {
+    result.push(compact.slice(i, i + 2));
+  }
+  return result;
+}
+
+/**
+ * Dice coefficient over character bigrams (0 = nothing in common, 1 = identical)
+ */
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (left === right) return 1;
+  if (left.includes(right) || right.includes(left)) return 0.9;
+
+  const leftBigrams = bigrams(left);
+  const rightBigrams = bigrams(right);
+  if (leftBigrams.length === 0 || rightBigrams.length === 0) return 0;
+
+  const counts = new Map<string, number>();
+  leftBigrams.forEach((gram) => counts.set(gram, (counts.get(gram) ?? 0) + 1));
+
+  let overlap = 0;
+  rightBigrams.forEach((gram) => {
+    const count = counts.get(gram) ?? 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(gram, count - 1);
+    }
+  });
+
+  return (2 * overlap) / (leftBigrams.length + rightBigrams.length);
+}
+
+/**
+ * Checks whether two listings describe the same physical venue
+ */
+export function isSameVenue(a: Bar, b: Bar): boolean {
+  const distance = getDistanceInMeters(barCoordinates(a.coordinates), barCoordinates(b.coordinates));
+  if (distance > config.merge.maxDistance) return false;
+  return nameSimilarity(a.name, b.name) >= config.merge.minNameSimilarity;
+}
+
+/**
+ * Copies one field between bars, keeping the field's type
+ */
+function copyField<K extends keyof Bar>(target: Bar, source: Bar, field: K): void {
+  target[field] = source[field];
+}
+
+/**
+ * Builds a single bar from all listings of one venue, recording which
+ * provider each field was taken from
+ */
+function combineGroup(group: VenueGroup): Bar {
+  const byProvider = new Map(group.listings.map((listing) => [listing.provider, listing]));
+  const primary = group.listings[0];
+  const merged: Bar = { ...primary.bar };
+  const provenance: Partial<Record<keyof Bar, ProviderId>> = {};
+
+  (Object.keys(FIELD_PRIORITY) as MergeableField[]).forEach((field) => {
+    const capability = FIELD_CAPABILITY[field];
+    const source = FIELD_PRIORITY[field]
+      .map((id) => byProvider.get(id))
+      .find((listing) =>
+        listing &&
+        listing.bar[field] !== undefined &&
+        (!capability || listing.capabilities[capability])
+      );
+
+    if (source) {
+      copyField(merged, source.bar, field);
+      provenance[field] = source.provider;
+    }
+  });
+
+  merged.sources = group.listings.map((listing) => listing.provider);
+  merged.sourceIds = Object.fromEntries(
+    group.listings.map((listing) => [listing.provider, listing.bar.id])
+  );
+  merged.provenance = provenance;
+  return merged;
+}
+
+/**
+ * Merges search results from several providers into one list,
+ * collapsing listings that refer to the same venue
+ */
+export function mergeVenues(results: ProviderResults[]): Bar[] {
+  const groups: VenueGroup[] = [];
+
+  results.forEach(({ provider, capabilities, bars }) => {
+    bars.forEach((bar) => {
+      const match = groups.find((group) =>
+        !group.listings.some((listing) => listing.provider === provider) &&
+        isSameVenue(group.listings[0].bar, bar)
+      );
+
+      if (match) {
+        match.listings.push({ provider, capabilities, bar });
+      } else {
+        groups.push({ listings: [{ provider, capabilities, bar }] });
+      }
+    });
+  });
+
+  return groups.map(combineGroup);
+}
@@ -0,0 +1,36 @@
+import { bars } from '../data/bars';
+import { getDistanceInMeters, barCoordinates } from '../lib/geo';
+import type { VenueProvider } from './providers';
+
+/**
+ * Serves the bundled Bergen demo bars through the provider interface.
+ * Useful for development without API keys.
+ */
+export const mockProvider: VenueProvider = {
+  id: 'mock',
+  name: 'Demo data (Bergen)',
+  capabilities: {
+    details: true,
+    reviews: false,
+    ratings: true,
+    photos: true,
+    businessHours: false,
+    maxRadius: Infinity,
+    maxLimit: bars.length,
+    maxResults: bars.length,
+  },
+  isConfigured: () => true,
+  searchBars: async ({ coordinates }) => {
+    const results = bars.map((bar) => ({
+      ...bar,
+      source: 'mock' as const,
+      distance: getDistanceInMeters(coordinates, barCoordinates(bar.coordinates)),
+    }));
+    return { bars: results, total: results.length };
+  },
+  fetchBarDetails: async (barId) => {
+    const bar = bars.find((candidate) => candidate.id === barId);
+    return bar ? { ...bar, source: 'mock' } : null;
+  },
+  fetchBarReviews: async () => ({ reviews: [], total: 0 }),
+};
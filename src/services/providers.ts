@@ -0,0 +1,141 @@
+import { Bar, ProviderId } from '../data/bars';
+import { Coordinates } from '../hooks/use-geolocation';
+import { config } from '../config/app';
+import { yelpProvider } from './yelp';
+import { foursquareProvider } from './foursquare';
+import { mockProvider } from './mock';
+
+export type { ProviderId };
+
+// 'all' queries every configured live provider and merges the results
+export type ProviderSelection = ProviderId | 'all';
+
+/**
+ * Describes what a venue provider can deliver, so callers can
+ * hide features (reviews, open status) the source doesn't support
+ */
+export interface ProviderCapabilities {
+  details: boolean;
+  reviews: boolean;
+  ratings: boolean;
+  photos: boolean;
+  businessHours: boolean;
+  maxRadius: number; // in meters
+  maxLimit: number; // results per request
+  maxResults: number; // results reachable by paging (offset + limit)
+}
+
+export interface VenueSearchParams {
+  coordinates: Coordinates;
+  radius: number; // in meters
+  limit?: number;
+  offset?: number;
+  signal?: AbortSignal; // Cancels the request when the search is superseded
+  bypassCache?: boolean; // Skip the API proxy's response cache, e.g. for health checks
+}
+
+export interface VenueSearchResult {
+  bars: Bar[];
+  total?: number;
+}
+
+export interface VenueReview {
+  id: string;
+  rating: number;
+  user: {
+    name: string;
+    image_url: string;
+  };
+  text: string;
+  time_created: string;
+  url: string;
+}
+
+export interface ReviewQuery {
+  offset?: number;
+  limit?: number;
+  signal?: AbortSignal;
+}
+
+export interface ReviewPage {
+  reviews: VenueReview[];
+  total: number; // Reviews the provider has, not just the ones it lets us read
+}
+
+/**
+ * Common interface implemented by every bar data source
+ */
+export interface VenueProvider {
+  id: ProviderId;
+  name: string;
+  capabilities: ProviderCapabilities;
+  isConfigured: () => boolean;
+  searchBars: (params: VenueSearchParams) => Promise<VenueSearchResult>;
+  fetchBarDetails: (barId: string, signal?: AbortSignal) => Promise<Bar | null>;
+  fetchBarReviews: (barId: string, query?: ReviewQuery) => Promise<ReviewPage>;
+}
+
+const ACTIVE_PROVIDER_KEY = 'bar-provider';
+
+const registry = new Map<ProviderId, VenueProvider>();
+
+/**
+ * Registers a provider, replacing any existing one with the same id
+ */
+export function registerProvider(provider: VenueProvider): void {
+  registry.set(provider.id, provider);
+}
+
+/**
+ * Returns the provider registered under the given id
+ */
+export function getProvider(id: ProviderId): VenueProvider | undefined {
+  return registry.get(id);
+}
+
+/**
+ * Returns all registered providers in registration order
+ */
+export function getProviders(): VenueProvider[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Returns configured providers backed by a real API (everything except mock data)
+ */
+export function getLiveProviders(): VenueProvider[] {
+  return getProviders().filter((provider) => provider.id !== 'mock' && provider.isConfigured());
+}
+
+/**
+ * Resolves a selection to the providers that should be queried
+ */
+export function resolveProviders(selection: ProviderSelection): VenueProvider[] {
+  if (selection === 'all') return getLiveProviders();
+  const provider = registry.get(selection);
+  return provider ? [provider] : [];
+}
+
+/**
+ * Gets the provider chosen by the user, falling back to the configured default
+ */
+export function getActiveProviderId(): ProviderSelection {
+  if (!config.useApi) return 'mock';
+
+  const stored = localStorage.getItem(ACTIVE_PROVIDER_KEY) as ProviderSelection | null;
+  if (stored && (stored === 'all' || registry.has(stored))) {
+    return stored;
+  }
+  return config.defaultProvider;
+}
+
+/**
+ * Persists the provider chosen by the user
+ */
+export function setActiveProviderId(id: ProviderSelection): void {
+  localStorage.setItem(ACTIVE_PROVIDER_KEY, id);
+}
+
+registerProvider(yelpProvider);
+registerProvider(foursquareProvider);
+registerProvider(mockProvider);
@@ -0,0 +1,345 @@
+import { config } from '../config/app';
+import { Coordinates } from '../hooks/use-geolocation';
+import { decodePolyline, getDistanceInMeters, movePoint } from '../lib/geo';
+import { getJson } from './http';
+
+/**
+ * Routes and travel times from the configured routing server (OSRM or
+ * Valhalla) for walking, cycling and driving. The map draws single routes
+ * through leaflet-routing-machine; bar crawls and the travel times on the bar
+ * cards come from here.
+ */
+
+export type TravelMode = 'walk' | 'cycle' | 'drive';
+
+export const travelModes: Array<{ value: TravelMode; label: string }> = [
+  { value: 'walk', label: 'Walking' },
+  { value: 'cycle', label: 'Cycling' },
+  { value: 'drive', label: 'Driving' },
+];
+
+export interface RouteLeg {
+  distance: number; // meters
+  duration: number; // seconds
+}
+
+export interface Route {
+  legs: RouteLeg[]; // One per pair of consecutive points
+  distance: number;
+  duration: number;
+  coordinates?: Array<[number, number]>; // [lat, lng] path, when requested
+}
+
+export interface Isochrone {
+  polygon: Coordinates[]; // Area reachable within the time
+  radius: number; // Meters from the center to the farthest point of the polygon
+}
+
+interface RouteOptions {
+  signal?: AbortSignal;
+  geometry?: boolean; // Include the path to draw on the map
+}
+
+// Profile names per engine, plus the server name on routing.openstreetmap.de
+const PROFILES: Record<TravelMode, { osrm: string; server: string; valhalla: string; googleMaps: string }> = {
+  walk: { osrm: 'foot', server: 'foot', valhalla: 'pedestrian', googleMaps: 'walking' },
+  cycle: { osrm: 'bike', server: 'bike', valhalla: 'bicycle', googleMaps: 'bicycling' },
+  drive: { osrm: 'driving', server: 'car', valhalla: 'auto', googleMaps: 'driving' },
+};
+
+const TRAVEL_MODE_KEY = 'travel-mode';
+
+interface OsrmRouteResponse {
+  code: string;
+  message?: string;
+  routes: Array<{ distance: number; duration: number; legs: RouteLeg[]; geometry?: string }>;
+}
+
+interface OsrmTableResponse {
+  code: string;
+  message?: string;
+  durations: Array<Array<number | null>>;
+  distances?: Array<Array<number | null>>;
+}
+
+interface ValhallaSummary {
+  length: number; // kilometers
+  time: number; // seconds
+}
+
+interface ValhallaRouteResponse {
+  trip: {
+    status: number;
+    status_message: string;
+    summary: ValhallaSummary;
+    legs: Array<{ summary: ValhallaSummary; shape: string }>;
+  };
+}
+
+interface ValhallaIsochroneResponse {
+  features: Array<{ geometry: { type: string; coordinates: number[][] | number[][][] } }>;
+}
+
+interface ValhallaMatrixResponse {
+  sources_to_targets: Array<Array<{ distance: number | null; time: number | null }>>;
+}
+
+/**
+ * Returns the travel mode the user picked, or the default
+ */
+export function getTravelMode(): TravelMode {
+  const stored = localStorage.getItem(TRAVEL_MODE_KEY) as TravelMode | null;
+  return stored && stored in PROFILES ? stored : (config.routing.defaultMode as TravelMode);
+}
+
+/**
+ * Remembers the travel mode for the next visit
+ */
+export function setTravelMode(mode: TravelMode): void {
+  localStorage.setItem(TRAVEL_MODE_KEY, mode);
+}
+
+/**
+ * Base URL of the routing server for a travel mode
+ */
+export function getRoutingUrl(mode: TravelMode): string {
+  return config.routing.url.replace('{profile}', PROFILES[mode].server);
+}
+
+/**
+ * OSRM profile name for a travel mode, as used in request paths
+ */
+export function getOsrmProfile(mode: TravelMode): string {
+  return PROFILES[mode].osrm;
+}
+
+/**
+ * Google Maps `travelmode` for a travel mode, for directions links
+ */
+export function getGoogleMapsTravelMode(mode: TravelMode): string {
+  return PROFILES[mode].googleMaps;
+}
+
+/**
+ * A cheap request that tells whether the routing server answers
+ */
+export function getRoutingHealthUrl(): string {
+  if (config.routing.engine === 'valhalla') return `${getRoutingUrl('walk')}/status`;
+
+  const { latitude, longitude } = config.bergenCenter;
+  return `${getRoutingUrl('walk')}/route/v1/foot/${longitude},${latitude};${longitude + 0.003},${latitude + 0.001}?overview=false`;
+}
+
+function toOsrmPath(points: Coordinates[]): string {
+  return points.map((point) => `${point.longitude},${point.latitude}`).join(';');
+}
+
+function toValhallaLocations(points: Coordinates[]) {
+  return points.map((point) => ({ lat: point.latitude, lon: point.longitude }));
+}
+
+async function fetchOsrmRoute(points: Coordinates[], mode: TravelMode, options: RouteOptions): Promise<Route> {
+  const overview = options.geometry ? 'full' : 'false';
+  const data = await getJson<OsrmRouteResponse>(
+    `${getRoutingUrl(mode)}/route/v1/${getOsrmProfile(mode)}/${toOsrmPath(points)}?overview=${overview}`,
+    { budget: 'routing', signal: options.signal }
+  );
+
+  const route = data.routes?.[0];
+  if (data.code !== 'Ok' || !route) {
+    throw new Error(data.message || `No route found (${data.code})`);
+  }
+
+  return {
+    legs: route.legs.map((leg) => ({ distance: leg.distance, duration: leg.duration })),
+    distance: route.distance,
+    duration: route.duration,
+    coordinates: route.geometry ? decodePolyline(route.geometry) : undefined,
+  };
+}
+
+async function fetchValhallaRoute(points: Coordinates[], mode: TravelMode, options: RouteOptions): Promise<Route> {
+  const request = { locations: toValhallaLocations(points), costing: PROFILES[mode].valhalla, units: 'kilometers' };
+  const { trip } = await getJson<ValhallaRouteResponse>(
+    `${getRoutingUrl(mode)}/route?json=${encodeURIComponent(JSON.stringify(request))}`,
+    { budget: 'routing', signal: options.signal }
+  );
+
+  if (trip.status !== 0) {
+    throw new Error(trip.status_message || 'No route found');
+  }
+
+  return {
+    legs: trip.legs.map((leg) => ({ distance: leg.summary.length * 1000, duration: leg.summary.time })),
+    distance: trip.summary.length * 1000,
+    duration: trip.summary.time,
+    coordinates: options.geometry ? trip.legs.flatMap((leg) => decodePolyline(leg.shape, 6)) : undefined,
+  };
+}
+
+/**
+ * Fetches the route through the points in the given order
+ */
+export async function fetchRoute(points: Coordinates[], mode: TravelMode, options: RouteOptions = {}): Promise<Route> {
+  return config.routing.engine === 'valhalla'
+    ? fetchValhallaRoute(points, mode, options)
+    : fetchOsrmRoute(points, mode, options);
+}
+
+async function fetchOsrmTable(
+  origin: Coordinates,
+  destinations: Coordinates[],
+  mode: TravelMode,
+  signal?: AbortSignal
+): Promise<Array<RouteLeg | null>> {
+  const data = await getJson<OsrmTableResponse>(
+    `${getRoutingUrl(mode)}/table/v1/${getOsrmProfile(mode)}/${toOsrmPath([origin, ...destinations])}` +
+      '?sources=0&annotations=duration,distance',
+    { budget: 'routing', signal }
+  );
+
+  if (data.code !== 'Ok') {
+    throw new Error(data.message || `Travel times unavailable (${data.code})`);
+  }
+
+  return destinations.map((_, index) => {
+    const duration = data.durations[0]?.[index + 1];
+    const distance = data.distances?.[0]?.[index + 1];
+    return duration === null || duration === undefined || distance === null || distance === undefined
+      ? null
+      : { duration, distance };
+  });
+}
+
+async function fetchValhallaMatrix(
+  origin: Coordinates,
+  destinations: Coordinates[],
+  mode: TravelMode,
+  signal?: AbortSignal
+): Promise<Array<RouteLeg | null>> {
+  const request = {
+    sources: toValhallaLocations([origin]),
+    targets: toValhallaLocations(destinations),
+    costing: PROFILES[mode].valhalla,
+    units: 'kilometers',
+  };
+  const data = await getJson<ValhallaMatrixResponse>(
+    `${getRoutingUrl(mode)}/sources_to_targets?json=${encodeURIComponent(JSON.stringify(request))}`,
+    { budget: 'routing', signal }
+  );
+
+  return data.sources_to_targets[0].map((cell) =>
+    cell.time === null || cell.distance === null ? null : { duration: cell.time, distance: cell.distance * 1000 }
+  );
+}
+
+/**
+ * Travel time and distance from one point to many, in the order given.
+ * Destinations the router can't reach are null.
+ */
+export async function fetchTravelTimes(
+  origin: Coordinates,
+  destinations: Coordinates[],
+  mode: TravelMode,
+  signal?: AbortSignal
+): Promise<Array<RouteLeg | null>> {
+  // Servers cap the matrix size, so ask in batches
+  const batchSize = config.routing.maxTableSize - 1;
+  const results: Array<RouteLeg | null> = [];
+
+  for (let start = 0; start < destinations.length; start += batchSize) {
+    const batch = destinations.slice(start, start + batchSize);
+    results.push(
+      ...(config.routing.engine === 'valhalla'
+        ? await fetchValhallaMatrix(origin, batch, mode, signal)
+        : await fetchOsrmTable(origin, batch, mode, signal))
+    );
+  }
+
+  return results;
+}
+
+/**
+ * Radius of the circle a walking-time area always fits in
+ */
+export function getWalkingReach(minutes: number): number {
+  return minutes * config.routing.isochrone.metersPerMinute;
+}
+
+function toIsochrone(center: Coordinates, polygon: Coordinates[]): Isochrone {
+  const radius = Math.max(0, ...polygon.map((point) => getDistanceInMeters(center, point)));
+  return { polygon, radius };
+}
+
+async function fetchValhallaIsochrone(center: Coordinates, minutes: number, signal?: AbortSignal): Promise<Isochrone> {
+  const request = {
+    locations: toValhallaLocations([center]),
+    costing: PROFILES.walk.valhalla,
+    contours: [{ time: minutes }],
+    polygons: true,
+  };
+  const data = await getJson<ValhallaIsochroneResponse>(
+    `${getRoutingUrl('walk')}/isochrone?json=${encodeURIComponent(JSON.stringify(request))}`,
+    { budget: 'routing', signal }
+  );
+
+  const geometry = data.features?.[0]?.geometry;
+  if (!geometry) throw new Error('No walking area returned');
+  // Polygon rings are nested one level deeper than a line
+  const ring = (geometry.type === 'Polygon' ? geometry.coordinates[0] : geometry.coordinates) as number[][];
+  return toIsochrone(center, ring.map(([longitude, latitude]) => ({ latitude, longitude })));
+}
+
+/**
+ * Traces the reachable area from walking times to points along each bearing:
+ * on every ray the area ends where the walking time passes the limit.
+ */
+async function traceOsrmIsochrone(center: Coordinates, minutes: number, signal?: AbortSignal): Promise<Isochrone> {
+  const { bearings, samplesPerBearing } = config.routing.isochrone;
+  const limit = minutes * 60;
+  const reach = getWalkingReach(minutes);
+  const step = reach / samplesPerBearing;
+
+  const samples: Coordinates[] = [];
+  for (let ray = 0; ray < bearings; ray++) {
+    for (let sample = 1; sample <= samplesPerBearing; sample++) {
+      samples.push(movePoint(center, sample * step, (ray * 360) / bearings));
+    }
+  }
+  const times = await fetchTravelTimes(center, samples, 'walk', signal);
+
+  const polygon: Coordinates[] = [];
+  for (let ray = 0; ray < bearings; ray++) {
+    const bearing = (ray * 360) / bearings;
+    let distance = 0;
+    let previousTime = 0;
+    for (let sample = 1; sample <= samplesPerBearing; sample++) {
+      const time = times[ray * samplesPerBearing + sample - 1]?.duration;
+      if (time === undefined || time > limit) {
+        // Interpolate between the last sample in reach and this one
+        if (time !== undefined && time > previousTime) {
+          distance += step * ((limit - previousTime) / (time - previousTime));
+        }
+        break;
+      }
+      distance = sample * step;
+      previousTime = time;
+    }
+    polygon.push(movePoint(center, distance, bearing));
+  }
+
+  return toIsochrone(center, polygon);
+}
+
+/**
+ * Area reachable on foot from a point within the given number of minutes
+ */
+export async function fetchWalkingIsochrone(
+  center: Coordinates,
+  minutes: number,
+  signal?: AbortSignal
+): Promise<Isochrone> {
+  return config.routing.engine === 'valhalla'
+    ? fetchValhallaIsochrone(center, minutes, signal)
+    : traceOsrmIsochrone(center, minutes, signal);
+}
@@ -0,0 +1,185 @@
+import { Bar } from '../data/bars';
+import { config } from '../config/app';
+import {
+  ProviderId,
+  ProviderSelection,
+  VenueProvider,
+  VenueSearchParams,
+  resolveProviders,
+} from './providers';
+import { ProviderResults, mergeVenues } from './merge';
+import { AreaCoverage, searchArea } from './tiling';
+import { ProviderError, toProviderError } from './errors';
+
+/**
+ * Paging position of one provider within a search
+ */
+export interface ProviderCursor {
+  offset: number;
+  total?: number;
+  done: boolean;
+}
+
+export type SearchCursors = Partial<Record<ProviderId, ProviderCursor>>;
+
+export interface SearchPage {
+  results: ProviderResults[];
+  cursors: SearchCursors;
+  coverage: Partial<Record<ProviderId, AreaCoverage>>;
+}
+
+export interface AreaParams extends Omit<VenueSearchParams, 'limit' | 'offset'> {
+  exhaustive?: boolean; // Tile the area so results aren't truncated by the provider cap
+}
+
+/**
+ * Most results we will page through for a provider
+ */
+function resultCeiling(provider: VenueProvider): number {
+  return Math.min(config.search.maxResults, provider.capabilities.maxResults);
+}
+
+/**
+ * Checks whether any provider still has pages left
+ */
+export function hasMorePages(cursors: SearchCursors): boolean {
+  return Object.values(cursors).some((cursor) => cursor && !cursor.done);
+}
+
+/**
+ * Returns the largest total reported by a provider, if any reported one
+ */
+export function getReportedTotal(cursors: SearchCursors): number | undefined {
+  const totals = Object.values(cursors)
+    .map((cursor) => cursor?.total)
+    .filter((total): total is number => total !== undefined);
+  return totals.length > 0 ? Math.max(...totals) : undefined;
+}
+
+/**
+ * Whether a provider has to be queried tile by tile instead of page by page
+ */
+function needsTiling(provider: VenueProvider, params: AreaParams): boolean {
+  return params.exhaustive || params.radius > provider.capabilities.maxRadius;
+}
+
+/**
+ * Combines the coverage of several provider searches into one summary
+ */
+export function summarizeCoverage(coverage: SearchPage['coverage']): AreaCoverage | undefined {
+  const entries = Object.values(coverage).filter((entry): entry is AreaCoverage => !!entry);
+  if (entries.length === 0) return undefined;
+
+  return entries.reduce((summary, entry) => ({
+    tilesQueried: summary.tilesQueried + entry.tilesQueried,
+    truncatedTiles: summary.truncatedTiles + entry.truncatedTiles,
+    skippedTiles: summary.skippedTiles + entry.skippedTiles,
+    complete: summary.complete && entry.complete,
+  }));
+}
+
+/**
+ * Fetches the next page from every selected provider that has results left.
+ * Providers that need tiling return the whole area at once.
+ * Pass no cursors to start a new search. Fails with a ProviderError only if
+ * every provider fails, or with an AbortError if params.signal is aborted.
+ */
+export async function searchVenuesPage(
+  selection: ProviderSelection,
+  params: AreaParams,
+  cursors: SearchCursors = {}
+): Promise<SearchPage> {
+  const providers = resolveProviders(selection).filter((provider) => !cursors[provider.id]?.done);
+  if (providers.length === 0 && Object.keys(cursors).length === 0) {
+    throw new ProviderError('missing_key', 'No venue provider is configured. Add an API key to your .env file.');
+  }
+
+  const coverage: SearchPage['coverage'] = {};
+
+  const settled = await Promise.allSettled(
+    providers.map(async (provider) => {
+      if (needsTiling(provider, params)) {
+        const area = await searchArea(provider, params.coordinates, params.radius, params.signal);
+        coverage[provider.id] = area.coverage;
+        return { bars: area.bars, total: area.bars.length };
+      }
+
+      const offset = cursors[provider.id]?.offset ?? 0;
+      const limit = Math.min(config.search.pageSize, provider.capabilities.maxLimit, resultCeiling(provider) - offset);
+      return provider.searchBars({ coordinates: params.coordinates, radius: params.radius, offset, limit, signal: params.signal });
+    })
+  );
+
+  // A superseded search is abandoned as a whole rather than treated as provider failures
+  params.signal?.throwIfAborted();
+
+  const nextCursors: SearchCursors = { ...cursors };
+  const results: ProviderResults[] = [];
+
+  providers.forEach((provider, index) => {
+    const outcome = settled[index];
+    if (outcome.status === 'rejected') {
+      console.warn(`⚠️ ${provider.name} search failed:`, outcome.reason);
+      // Stop paging a failing provider so the others can still finish
+      nextCursors[provider.id] = { ...cursors[provider.id], offset: cursors[provider.id]?.offset ?? 0, done: true };
+      return;
+    }
+
+    const { bars, total } = outcome.value;
+    const offset = (cursors[provider.id]?.offset ?? 0) + bars.length;
+    const requested = Math.min(config.search.pageSize, provider.capabilities.maxLimit);
+    nextCursors[provider.id] = {
+      offset,
+      total,
+      done:
+        needsTiling(provider, params) ||
+        bars.length < requested ||
+        offset >= resultCeiling(provider) ||
+        (total !== undefined && offset >= total),
+    };
+    results.push({ provider: provider.id, capabilities: provider.capabilities, bars });
+  });
+
+  if (providers.length > 0 && results.length === 0) {
+    const failedIndex = settled.findIndex((outcome) => outcome.status === 'rejected');
+    throw toProviderError((settled[failedIndex] as PromiseRejectedResult).reason, providers[failedIndex].id);
+  }
+
+  return { results, cursors: nextCursors, coverage };
+}
+
+/**
+ * Appends a new page of provider results to previously loaded ones
+ */
+export function appendResults(existing: ProviderResults[], page: ProviderResults[]): ProviderResults[] {
+  const combined = existing.map((entry) => ({ ...entry, bars: [...entry.bars] }));
+  page.forEach((entry) => {
+    const match = combined.find((candidate) => candidate.provider === entry.provider);
+    if (match) {
+      match.bars.push(...entry.bars);
+    } else {
+      combined.push({ ...entry, bars: [...entry.bars] });
+    }
+  });
+  return combined;
+}
+
+/**
+ * Searches the selected provider(s) for bars, paging automatically until
+ * every provider is exhausted or the configured ceiling is reached.
+ * Results from several providers are merged into one list.
+ */
+export async function searchVenues(
+  selection: ProviderSelection,
+  params: AreaParams
+): Promise<Bar[]> {
+  let page = await searchVenuesPage(selection, params);
+  let results = page.results;
+
+  while (hasMorePages(page.cursors)) {
+    page = await searchVenuesPage(selection, params, page.cursors);
+    results = appendResults(results, page.results);
+  }
+
+  return mergeVenues(results);
+}
@@ -0,0 +1,355 @@
+import { config } from '../config/app';
+import { getBlob } from './http';
+
+/**
+ * Basemaps for the map and offline tile packs. A pack saves every tile of a
+ * bounding box over a range of zoom levels to IndexedDB; the map looks there
+ * before asking the tile server, so saved areas work without signal. Only a
+ * tile server of your own (VITE_TILES_URL) may be saved from.
+ */
+
+export type BasemapId = 'dark' | 'light' | 'satellite' | 'self-hosted';
+export type MapLayerId = 'auto' | BasemapId; // auto follows the app theme
+
+export interface Basemap {
+  id: BasemapId;
+  label: string;
+  url: string;
+  subdomains?: string;
+  attribution: string;
+  maxZoom: number;
+  downloadable: boolean; // Whether the tile server's terms allow saving tiles
+}
+
+export interface TileBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface TileCoords {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface TilePack {
+  id: string;
+  basemap: BasemapId;
+  bounds: TileBounds;
+  minZoom: number;
+  maxZoom: number;
+  tileCount: number;
+  bytes: number;
+  createdAt: number;
+}
+
+interface DownloadOptions {
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+interface TileEntry {
+  key: string;
+  blob: Blob;
+}
+
+const CARTO_ATTRIBUTION =
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors &copy; <a href="https://carto.com/attributions">CARTO</a>';
+
+// Offered when the app is set up with its own tile server
+const selfHostedBasemaps: Basemap[] = config.tiles.url
+  ? [
+      {
+        id: 'self-hosted',
+        label: 'Self-hosted',
+        url: config.tiles.url,
+        attribution: config.tiles.attribution,
+        maxZoom: 19,
+        downloadable: true,
+      },
+    ]
+  : [];
+
+export const basemaps: Basemap[] = [
+  {
+    id: 'dark',
+    label: 'Dark',
+    url: 'https://{s}.basemaps.cartocdn.com/dark_all/{z}/{x}/{y}{r}.png',
+    subdomains: 'abcd',
+    attribution: CARTO_ATTRIBUTION,
+    maxZoom: 20,
+    downloadable: false, // CARTO's free basemaps don't allow bulk or offline use
+  },
+  {
+    id: 'light',
+    label: 'Light',
+    url: 'https://{s}.basemaps.cartocdn.com/light_all/{z}/{x}/{y}{r}.png',
+    subdomains: 'abcd',
+    attribution: CARTO_ATTRIBUTION,
+    maxZoom: 20,
+    downloadable: false, // CARTO's free basemaps don't allow bulk or offline use
+  },
+  {
+    id: 'satellite',
+    label: 'Satellite',
+    url: 'https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile/{z}/{y}/{x}',
+    attribution: 'Tiles &copy; Esri &mdash; Source: Esri, Maxar, Earthstar Geographics, and the GIS User Community',
+    maxZoom: 19,
+    downloadable: false,
+  },
+  ...selfHostedBasemaps,
+];
+
+export const mapLayers: Array<{ value: MapLayerId; label: string }> = [
+  { value: 'auto', label: 'Match app theme' },
+  ...basemaps.map((basemap) => ({ value: basemap.id, label: basemap.label })),
+];
+
+const MAP_LAYER_KEY = 'map-layer';
+
+const DB_NAME = 'baradvisor-tiles';
+const DB_VERSION = 1;
+const TILE_STORE = 'tiles';
+const PACK_STORE = 'packs';
+
+/**
+ * Returns the map layer chosen last time
+ */
+export function getMapLayer(): MapLayerId {
+  const stored = localStorage.getItem(MAP_LAYER_KEY) as MapLayerId | null;
+  return stored && mapLayers.some((layer) => layer.value === stored) ? stored : 'auto';
+}
+
+/**
+ * Remembers the map layer for the next visit
+ */
+export function setMapLayer(layer: MapLayerId): void {
+  localStorage.setItem(MAP_LAYER_KEY, layer);
+}
+
+/**
+ * The basemap shown for a layer choice; "auto" picks light or dark by theme
+ */
+export function resolveBasemap(layer: MapLayerId, theme?: string): Basemap {
+  const id = layer === 'auto' ? (theme === 'light' ? 'light' : 'dark') : layer;
+  return basemaps.find((basemap) => basemap.id === id) ?? basemaps[0];
+}
+
+function lngToTileX(lng: number, zoom: number): number {
+  return Math.floor(((lng + 180) / 360) * 2 ** zoom);
+}
+
+function latToTileY(lat: number, zoom: number): number {
+  const rad = (lat * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * 2 ** zoom);
+}
+
+/**
+ * Range of tile columns and rows covering the bounds at one zoom level
+ */
+function getTileRange(bounds: TileBounds, zoom: number) {
+  const last = 2 ** zoom - 1;
+  return {
+    minX: Math.max(0, lngToTileX(bounds.west, zoom)),
+    maxX: Math.min(last, lngToTileX(bounds.east, zoom)),
+    minY: Math.max(0, latToTileY(bounds.north, zoom)),
+    maxY: Math.min(last, latToTileY(bounds.south, zoom)),
+  };
+}
+
+/**
+ * Number of tiles a pack of the bounds and zoom levels would hold
+ */
+export function countPackTiles(bounds: TileBounds, minZoom: number, maxZoom: number): number {
+  let count = 0;
+  for (let zoom = minZoom; zoom <= maxZoom; zoom++) {
+    const { minX, maxX, minY, maxY } = getTileRange(bounds, zoom);
+    count += (maxX - minX + 1) * (maxY - minY + 1);
+  }
+  return count;
+}
+
+function getPackTiles(bounds: TileBounds, minZoom: number, maxZoom: number): TileCoords[] {
+  const tiles: TileCoords[] = [];
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const { minX, maxX, minY, maxY } = getTileRange(bounds, z);
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        tiles.push({ x, y, z });
+      }
+    }
+  }
+  return tiles;
+}
+
+function packContains(pack: TilePack, { x, y, z }: TileCoords): boolean {
+  if (z < pack.minZoom || z > pack.maxZoom) return false;
+  const { minX, maxX, minY, maxY } = getTileRange(pack.bounds, z);
+  return x >= minX && x <= maxX && y >= minY && y <= maxY;
+}
+
+function tileKey(basemap: BasemapId, { x, y, z }: TileCoords): string {
+  return `${basemap}/${z}/${x}/${y}`;
+}
+
+/**
+ * Fills in a tile URL template the way Leaflet does, so saved tiles match
+ * the ones the map would load on this screen
+ */
+function getTileUrl(basemap: Basemap, { x, y, z }: TileCoords): string {
+  const subdomains = basemap.subdomains ?? 'abc';
+  return basemap.url
+    .replace('{s}', subdomains[Math.abs(x + y) % subdomains.length])
+    .replace('{z}', z.toString())
+    .replace('{x}', x.toString())
+    .replace('{y}', y.toString())
+    .replace('{r}', window.devicePixelRatio > 1 ? '@2x' : '');
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(TILE_STORE, { keyPath: 'key' });
+        request.result.createObjectStore(PACK_STORE, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+}
+
+/**
+ * Runs a single request against one of the tile stores
+ */
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(storeName, mode).objectStore(storeName));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Returns a saved tile, if a pack covers it
+ */
+export async function getSavedTile(basemap: BasemapId, coords: TileCoords): Promise<Blob | undefined> {
+  const entry = await withStore<TileEntry | undefined>(TILE_STORE, 'readonly', (store) =>
+    store.get(tileKey(basemap, coords))
+  );
+  return entry?.blob;
+}
+
+/**
+ * Lists the saved packs, newest first
+ */
+export async function listTilePacks(): Promise<TilePack[]> {
+  if (typeof indexedDB === 'undefined') return [];
+  const packs = await withStore<TilePack[]>(PACK_STORE, 'readonly', (store) => store.getAll());
+  return packs.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Deletes saved tiles of a basemap that none of the packs cover
+ */
+async function deleteUncoveredTiles(basemap: BasemapId, tiles: TileCoords[], packs: TilePack[]): Promise<void> {
+  const covering = packs.filter((pack) => pack.basemap === basemap);
+  for (const coords of tiles) {
+    if (covering.some((pack) => packContains(pack, coords))) continue;
+    await withStore(TILE_STORE, 'readwrite', (store) => store.delete(tileKey(basemap, coords)));
+  }
+}
+
+/**
+ * Downloads every tile of the bounds from minZoom to maxZoom and saves them
+ * as a pack. Tiles already saved by another pack are not downloaded again;
+ * tiles saved by a download that fails or is cancelled are removed.
+ */
+export async function downloadTilePack(
+  basemap: Basemap,
+  bounds: TileBounds,
+  minZoom: number,
+  maxZoom: number,
+  { signal, onProgress }: DownloadOptions = {}
+): Promise<TilePack> {
+  if (!basemap.downloadable) {
+    throw new Error(`The ${basemap.label} map can't be saved for offline use`);
+  }
+
+  const tiles = getPackTiles(bounds, minZoom, maxZoom);
+  if (tiles.length > config.tiles.maxPackTiles) {
+    throw new Error(`${tiles.length} tiles is more than the ${config.tiles.maxPackTiles} a pack can hold`);
+  }
+
+  let next = 0;
+  let done = 0;
+  let bytes = 0;
+  let failed = false;
+  const written: TileCoords[] = []; // Tiles this download saved, removed again if it fails
+
+  // A few downloads run side by side, each taking the next tile in line
+  const worker = async () => {
+    while (next < tiles.length && !failed) {
+      const coords = tiles[next++];
+      try {
+        let blob = await getSavedTile(basemap.id, coords);
+        if (!blob) {
+          blob = await getBlob(getTileUrl(basemap, coords), { budget: 'tiles', signal });
+          const entry: TileEntry = { key: tileKey(basemap.id, coords), blob };
+          await withStore(TILE_STORE, 'readwrite', (store) => store.put(entry));
+          written.push(coords);
+        }
+        bytes += blob.size;
+        onProgress?.(++done, tiles.length);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  // Let every worker stop before cleaning up, so none saves a tile afterwards
+  const results = await Promise.allSettled(Array.from({ length: config.tiles.downloadConcurrency }, worker));
+  const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+  if (failure) {
+    await deleteUncoveredTiles(basemap.id, written, await listTilePacks());
+    throw failure.reason;
+  }
+
+  const pack: TilePack = {
+    id: `${basemap.id}-${Date.now()}`,
+    basemap: basemap.id,
+    bounds,
+    minZoom,
+    maxZoom,
+    tileCount: tiles.length,
+    bytes,
+    createdAt: Date.now(),
+  };
+  await withStore(PACK_STORE, 'readwrite', (store) => store.put(pack));
+  return pack;
+}
+
+/**
+ * Deletes a pack and the tiles no other pack covers
+ */
+export async function deleteTilePack(id: string): Promise<void> {
+  const packs = await listTilePacks();
+  const pack = packs.find((candidate) => candidate.id === id);
+  if (!pack) return;
+
+  const others = packs.filter((candidate) => candidate.id !== id);
+  await deleteUncoveredTiles(pack.basemap, getPackTiles(pack.bounds, pack.minZoom, pack.maxZoom), others);
+  await withStore(PACK_STORE, 'readwrite', (store) => store.delete(id));
+}
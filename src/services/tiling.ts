@@ -0,0 +1,119 @@
+import { Bar } from '../data/bars';
+import { config } from '../config/app';
+import { Coordinates } from '../hooks/use-geolocation';
+import { barCoordinates, coverCircle, getDistanceInMeters } from '../lib/geo';
+import type { VenueProvider } from './providers';
+
+/**
+ * How completely a tiled search covered the requested area
+ */
+export interface AreaCoverage {
+  tilesQueried: number;
+  truncatedTiles: number; // Tiles that still had more results than we could fetch
+  skippedTiles: number; // Tiles dropped because the tile budget ran out
+  complete: boolean;
+}
+
+interface Tile {
+  center: Coordinates;
+  radius: number;
+}
+
+/**
+ * Pages through one tile up to the provider's result ceiling
+ */
+async function searchTile(
+  provider: VenueProvider,
+  tile: Tile,
+  signal?: AbortSignal
+): Promise<{ bars: Bar[]; truncated: boolean }> {
+  const ceiling = Math.min(config.search.maxResults, provider.capabilities.maxResults);
+  const pageSize = Math.min(config.search.pageSize, provider.capabilities.maxLimit);
+  const bars: Bar[] = [];
+  let total: number | undefined;
+
+  while (bars.length < ceiling) {
+    const limit = Math.min(pageSize, ceiling - bars.length);
+    const page = await provider.searchBars({
+      coordinates: tile.center,
+      radius: tile.radius,
+      offset: bars.length,
+      limit,
+      signal,
+    });
+    bars.push(...page.bars);
+    total = page.total;
+
+    if (page.bars.length < limit || (total !== undefined && bars.length >= total)) {
+      return { bars, truncated: false };
+    }
+  }
+
+  // Without a total, a full last page means there may be more
+  return { bars, truncated: total === undefined || total > bars.length };
+}
+
+/**
+ * Searches a circle of any size by splitting it into overlapping sub-circles
+ * no larger than the provider allows. Tiles that hit the result ceiling are
+ * split again until config.tiling.minTileRadius or the tile budget is reached.
+ * Results are deduplicated by id and limited to the requested circle.
+ */
+export async function searchArea(
+  provider: VenueProvider,
+  center: Coordinates,
+  radius: number,
+  signal?: AbortSignal
+): Promise<{ bars: Bar[]; coverage: AreaCoverage }> {
+  const tileRadius = Math.min(radius, provider.capabilities.maxRadius);
+  const queue: Tile[] = coverCircle(center, radius, tileRadius).map((tileCenter) => ({
+    center: tileCenter,
+    radius: tileRadius,
+  }));
+
+  const found = new Map<string, Bar>();
+  const coverage: AreaCoverage = { tilesQueried: 0, truncatedTiles: 0, skippedTiles: 0, complete: true };
+
+  while (queue.length > 0) {
+    if (coverage.tilesQueried >= config.tiling.maxTiles) {
+      coverage.skippedTiles = queue.length;
+      coverage.complete = false;
+      break;
+    }
+
+    const tile = queue.shift()!;
+    const { bars, truncated } = await searchTile(provider, tile, signal);
+    coverage.tilesQueried++;
+
+    bars.forEach((bar) => {
+      const distance = getDistanceInMeters(center, barCoordinates(bar.coordinates));
+      if (distance <= radius && !found.has(bar.id)) {
+        found.set(bar.id, { ...bar, distance });
+      }
+    });
+
+    if (truncated) {
+      const childRadius = tile.radius / 2;
+      if (childRadius >= config.tiling.minTileRadius) {
+        queue.push(
+          ...coverCircle(tile.center, tile.radius, childRadius)
+            .filter((childCenter) => getDistanceInMeters(center, childCenter) < radius + childRadius)
+            .map((childCenter) => ({ center: childCenter, radius: childRadius }))
+        );
+      } else {
+        coverage.truncatedTiles++;
+        coverage.complete = false;
+      }
+    }
+  }
+
+  console.log(
+    `🧩 ${provider.name}: ${found.size} bars from ${coverage.tilesQueried} tiles` +
+      (coverage.complete ? '' : ' (coverage incomplete)')
+  );
+
+  return {
+    bars: Array.from(found.values()).sort((a, b) => (a.distance ?? 0) - (b.distance ?? 0)),
+    coverage,
+  };
+}
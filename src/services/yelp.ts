@@ -1,14 +1,13 @@
 import { Bar, BarType } from '../data/bars';
 import { Coordinates } from '../hooks/use-geolocation';
+import { config } from '../config/app';
+import type { ReviewPage, ReviewQuery, VenueProvider, VenueSearchParams, VenueSearchResult } from './providers';
+import { HttpError, getJson, isAbortError } from './http';
+import { ProviderError, toProviderError } from './errors';
 
-const YELP_API_KEY = import.meta.env.VITE_YELP_API_KEY;
-// Use proxy in development to avoid CORS issues
-const YELP_API_URL = import.meta.env.DEV 
-  ? '/api/yelp/v3/businesses/search' 
-  : 'https://api.yelp.com/v3/businesses/search';
-const YELP_BUSINESS_URL = import.meta.env.DEV
-  ? '/api/yelp/v3/businesses'
-  : 'https://api.yelp.com/v3/businesses';
+// Requests go through our API proxy, which adds the Yelp API key server-side
+const YELP_API_URL = `${config.apiBaseUrl}/yelp/v3/businesses/search`;
+const YELP_BUSINESS_URL = `${config.apiBaseUrl}/yelp/v3/businesses`;
 
 // Map Yelp categories to our BarType
 const categoryToBarType: Record<string, BarType> = {
@@ -55,16 +54,20 @@ interface YelpBusiness {
   phone: string;
   display_phone: string;
   distance: number; // in meters
-  business_hours?: Array<{
-    open: Array<{
-      is_overnight: boolean;
-      start: string;
-      end: string;
-      day: number;
-    }>;
-    hours_type: string;
-    is_open_now: boolean;
+  business_hours?: YelpHours[]; // Search results
+  hours?: YelpHours[]; // Business details
+  photos?: string[]; // Business details only, up to 3
+}
+
+interface YelpHours {
+  open: Array<{
+    is_overnight: boolean;
+    start: string;
+    end: string;
+    day: number;
   }>;
+  hours_type: string;
+  is_open_now: boolean;
 }
 
 interface YelpSearchResponse {
@@ -153,7 +156,7 @@ function getImageUrl(business: YelpBusiness): string {
  * Converts a Yelp business to our Bar interface
  */
 function convertToBar(business: YelpBusiness): Bar {
-  const businessHours = business.business_hours?.[0];
+  const businessHours = business.business_hours?.[0] ?? business.hours?.[0];
   
   return {
     id: business.id,
@@ -162,8 +165,9 @@ function convertToBar(business: YelpBusiness): Bar {
     coordinates: [business.coordinates.longitude, business.coordinates.latitude],
     address: business.location.display_address.join(', '),
     rating: business.rating, // Yelp uses 0-5 scale, same as us!
+    reviewCount: business.review_count,
     image: getImageUrl(business),
-    description: `${business.categories[0]?.title || 'Bar'} • ${business.review_count} reviews`,
+    description: business.categories.map(cat => cat.title).join(' • ') || 'Bar',
     priceLevel: convertPriceLevel(business.price),
     phone: business.phone,
     displayPhone: business.display_phone,
@@ -174,20 +178,36 @@ function convertToBar(business: YelpBusiness): Bar {
       is_open_now: businessHours.is_open_now,
       hours: businessHours.open || []
     } : undefined,
+    photos: business.photos?.filter((photo) => photo.trim() !== ''),
+    transactions: business.transactions,
+    providerUrl: business.url.split('?')[0], // Drop Yelp's tracking parameters
+    source: 'yelp',
   };
 }
 
 /**
- * Fetches bars from Yelp API based on user's location
+ * Checks whether Yelp is enabled (the proxy holds the key)
  */
-export async function fetchBarsFromYelp(
-  userCoordinates: Coordinates,
-  radius: number = 5000, // 5km radius (max 40000 meters)
-  limit: number = 50
-): Promise<Bar[]> {
-  if (!YELP_API_KEY || YELP_API_KEY === 'your_api_key_here') {
-    throw new Error(
-      'Yelp API key is not configured. Please add VITE_YELP_API_KEY to your .env file.'
+export function isYelpConfigured(): boolean {
+  return config.enabledProviders.includes('yelp');
+}
+
+/**
+ * Searches Yelp for bars and returns them together with the total match count
+ */
+async function searchYelp({
+  coordinates: userCoordinates,
+  radius,
+  limit = 50,
+  offset = 0,
+  signal,
+  bypassCache,
+}: VenueSearchParams): Promise<VenueSearchResult> {
+  if (!isYelpConfigured()) {
+    throw new ProviderError(
+      'missing_key',
+      'Yelp is not enabled. Please add yelp to VITE_ENABLED_PROVIDERS in your .env file.',
+      'yelp'
     );
   }
 
@@ -198,34 +218,22 @@ export async function fetchBarsFromYelp(
       radius: Math.min(radius, 40000).toString(), // Yelp max is 40km
       categories: 'bars,cocktailbars,pubs,sportsbars,winebars,breweries,brewpubs,lounges',
       limit: Math.min(limit, 50).toString(), // Yelp max is 50 per request
+      offset: offset.toString(),
       sort_by: 'distance',
     });
 
     console.log('🔍 Fetching from Yelp:', `${YELP_API_URL}?${params}`);
     console.log('📍 User location:', userCoordinates);
-    console.log('🔑 Using API key:', `${YELP_API_KEY.slice(0, 10)}...`);
     
-    const response = await fetch(`${YELP_API_URL}?${params}`, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'Authorization': `Bearer ${YELP_API_KEY.trim()}`,
-      },
+    const data = await getJson<YelpSearchResponse>(`${YELP_API_URL}?${params}`, {
+      budget: 'yelp',
+      signal,
+      bypassCache,
     });
-
-    console.log('📡 Response status:', response.status);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('❌ Yelp API Error Response:', errorText);
-      throw new Error(`Yelp API error: ${response.status} - ${errorText}`);
-    }
-
-    const data: YelpSearchResponse = await response.json();
     
     if (!data.businesses || data.businesses.length === 0) {
       console.warn('No bars found in the specified area');
-      return [];
+      return { bars: [], total: data.total ?? 0 };
     }
 
     console.log(`✅ Found ${data.businesses.length} bars from Yelp`);
@@ -238,82 +246,96 @@ export async function fetchBarsFromYelp(
       );
     }
     
-    return data.businesses.map(convertToBar);
+    return { bars: data.businesses.map(convertToBar), total: data.total };
   } catch (error) {
-    console.error('Error fetching bars from Yelp:', error);
+    if (!isAbortError(error)) {
+      console.error('Error fetching bars from Yelp:', error);
+    }
     throw error;
   }
 }
 
 /**
- * Fetches detailed information about a specific bar
+ * Fetches bars from Yelp API based on user's location
  */
-export async function fetchBarDetails(barId: string): Promise<Bar | null> {
-  if (!YELP_API_KEY || YELP_API_KEY === 'your_api_key_here') {
-    throw new Error('Yelp API key is not configured');
+export async function fetchBarsFromYelp(
+  userCoordinates: Coordinates,
+  radius: number = 5000, // 5km radius (max 40000 meters)
+  limit: number = 50
+): Promise<Bar[]> {
+  const { bars } = await searchYelp({ coordinates: userCoordinates, radius, limit });
+  return bars;
+}
+
+/**
+ * Fetches detailed information about a specific bar, or null if Yelp doesn't know it
+ */
+export async function fetchBarDetails(barId: string, signal?: AbortSignal): Promise<Bar | null> {
+  if (!isYelpConfigured()) {
+    throw new ProviderError('missing_key', 'Yelp is not enabled', 'yelp');
   }
 
   try {
-    const response = await fetch(
-      `${YELP_BUSINESS_URL}/${barId}`,
-      {
-        method: 'GET',
-        headers: {
-          'Accept': 'application/json',
-          'Authorization': `Bearer ${YELP_API_KEY.trim()}`,
-        },
-      }
-    );
-
-    if (!response.ok) {
-      throw new Error(`Failed to fetch bar details: ${response.status}`);
-    }
-
-    const business: YelpBusiness = await response.json();
+    const business = await getJson<YelpBusiness>(`${YELP_BUSINESS_URL}/${encodeURIComponent(barId)}`, {
+      budget: 'yelp',
+      signal,
+    });
     return convertToBar(business);
   } catch (error) {
+    if (isAbortError(error)) throw error;
+    if (error instanceof HttpError && error.status === 404) return null;
     console.error('Error fetching bar details from Yelp:', error);
-    return null;
+    throw toProviderError(error, 'yelp');
   }
 }
 
 /**
- * Fetches reviews for a specific bar from Yelp
+ * Fetches a page of reviews for a specific bar from Yelp
  */
-export async function fetchBarReviews(barId: string): Promise<YelpReview[]> {
-  if (!YELP_API_KEY || YELP_API_KEY === 'your_api_key_here') {
-    throw new Error('Yelp API key is not configured');
+export async function fetchBarReviews(
+  barId: string,
+  { offset = 0, limit = 20, signal }: ReviewQuery = {}
+): Promise<ReviewPage> {
+  if (!isYelpConfigured()) {
+    throw new ProviderError('missing_key', 'Yelp is not enabled', 'yelp');
   }
 
   try {
-    const reviewsUrl = import.meta.env.DEV
-      ? `/api/yelp/v3/businesses/${barId}/reviews`
-      : `https://api.yelp.com/v3/businesses/${barId}/reviews`;
-
-    console.log('🔍 Fetching reviews from:', reviewsUrl);
-    console.log('🔑 Using API key:', `${YELP_API_KEY.slice(0, 10)}...`);
-
-    const response = await fetch(reviewsUrl, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'Authorization': `Bearer ${YELP_API_KEY.trim()}`,
-      },
+    const params = new URLSearchParams({
+      offset: offset.toString(),
+      limit: Math.min(limit, 50).toString(),
+      sort_by: 'newest',
     });
+    const reviewsUrl = `${YELP_BUSINESS_URL}/${encodeURIComponent(barId)}/reviews?${params}`;
 
-    console.log('📡 Reviews response status:', response.status);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('❌ Yelp Reviews API Error:', errorText);
-      throw new Error(`Failed to fetch reviews: ${response.status} - ${errorText}`);
-    }
+    console.log('🔍 Fetching reviews from:', reviewsUrl);
 
-    const data: YelpReviewsResponse = await response.json();
+    const data = await getJson<YelpReviewsResponse>(reviewsUrl, { budget: 'yelp', signal });
     console.log('✅ Fetched reviews:', data.reviews?.length || 0);
-    return data.reviews || [];
+    return { reviews: data.reviews || [], total: data.total ?? 0 };
   } catch (error) {
-    console.error('Error fetching reviews from Yelp:', error);
-    return [];
+    if (!isAbortError(error)) {
+      console.error('Error fetching reviews from Yelp:', error);
+    }
+    throw error;
   }
 }
+
+export const yelpProvider: VenueProvider = {
+  id: 'yelp',
+  name: 'Yelp',
+  capabilities: {
+    details: true,
+    reviews: true,
+    ratings: true,
+    photos: true,
+    businessHours: true,
+    maxRadius: 40000,
+    maxLimit: 50,
+    maxResults: 240, // Yelp rejects offset + limit above 240
+  },
+  isConfigured: isYelpConfigured,
+  searchBars: searchYelp,
+  fetchBarDetails,
+  fetchBarReviews,
+};
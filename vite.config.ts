@@ -1,26 +1,58 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
 
+// Mirrors the API proxy's /api/health (which providers have a key) for the diagnostics page
+const healthEndpoint = (env: Record<string, string>): Plugin => ({
+  name: "api-health",
+  configureServer(server) {
+    server.middlewares.use("/api/health", (_req, res) => {
+      res.setHeader("Content-Type", "application/json");
+      res.end(
+        JSON.stringify({
+          status: "ok",
+          providers: {
+            yelp: { configured: !!env.YELP_API_KEY?.trim() },
+            foursquare: { configured: !!env.FOURSQUARE_API_KEY?.trim() },
+          },
+        })
+      );
+    });
+  },
+});
+
 // https://vitejs.dev/config/
-export default defineConfig(({ mode }) => ({
-  server: {
-    host: "::",
-    port: 8080,
-    proxy: {
-      // Proxy Yelp API requests to avoid CORS issues
-      '/api/yelp': {
-        target: 'https://api.yelp.com',
-        changeOrigin: true,
-        rewrite: (path) => path.replace(/^\/api\/yelp/, ''),
+export default defineConfig(({ mode }) => {
+  // Provider keys are read server-side only (no VITE_ prefix, never bundled)
+  const env = loadEnv(mode, process.cwd(), "");
+
+  return {
+    server: {
+      host: "::",
+      port: 8080,
+      proxy: {
+        // Proxy Yelp API requests to avoid CORS issues and keep the key out of the browser
+        '/api/yelp': {
+          target: 'https://api.yelp.com',
+          changeOrigin: true,
+          rewrite: (path) => path.replace(/^\/api\/yelp/, ''),
+          headers: env.YELP_API_KEY ? { Authorization: `Bearer ${env.YELP_API_KEY.trim()}` } : undefined,
+        },
+        // Proxy Foursquare Places API requests to avoid CORS issues and keep the key out of the browser
+        '/api/foursquare': {
+          target: 'https://places-api.foursquare.com',
+          changeOrigin: true,
+          rewrite: (path) => path.replace(/^\/api\/foursquare/, ''),
+          headers: env.FOURSQUARE_API_KEY ? { Authorization: `Bearer ${env.FOURSQUARE_API_KEY.trim()}` } : undefined,
+        },
       },
     },
-  },
-  plugins: [react(), mode === "development" && componentTagger()].filter(Boolean),
-  resolve: {
-    alias: {
-      "@": path.resolve(__dirname, "./src"),
+    plugins: [react(), healthEndpoint(env), mode === "development" && componentTagger()].filter(Boolean),
+    resolve: {
+      alias: {
+        "@": path.resolve(__dirname, "./src"),
+      },
     },
-  },
-}));
+  };
+});